@@ -0,0 +1,140 @@
+import type {
+	DynamoDBDocument,
+	NativeAttributeValue,
+} from "@aws-sdk/lib-dynamodb";
+import type { z } from "zod";
+import type { Model } from "./Model.js";
+import { ValidationError } from "./errors/DynamoDBError.js";
+import { QueryBuilder } from "./query/QueryBuilder.js";
+import { ScanBuilder } from "./scan/ScanBuilder.js";
+import type { EntityItem, ModelConfig } from "./types/Model.js";
+import type { EntityReader } from "./types/Query.js";
+import { getTypeAttribute } from "./utils/entity.js";
+
+type AnyModel = Model<any, any, any, any>;
+
+// Keys and indexes of a table query come from the first model
+type TableQueryBuilder<TModels extends readonly AnyModel[]> =
+	TModels[0] extends Model<
+		infer TSchema,
+		infer THashKey,
+		infer TRangeKey,
+		infer TConfig
+	>
+		? QueryBuilder<
+				TSchema,
+				THashKey,
+				TRangeKey,
+				TConfig,
+				undefined,
+				EntityItem<TModels[number]>
+			>
+		: never;
+
+type TableScanBuilder<TModels extends readonly AnyModel[]> =
+	TModels[0] extends Model<infer TSchema, any, any, infer TConfig>
+		? ScanBuilder<TSchema, TConfig, EntityItem<TModels[number]>>
+		: never;
+
+type TableKeyValues<TModels extends readonly AnyModel[]> =
+	TModels[0] extends Model<infer TSchema, any, any, any>
+		? Partial<z.infer<TSchema>>
+		: never;
+
+/**
+ * Reads the entity models that share one table (single-table design).
+ * Every item is tagged with its entity and parsed by that entity's model,
+ * so results are a discriminated union on `entity`.
+ *
+ * @example
+ * ```typescript
+ * const customers = factory.table([User, Order]);
+ * const rows = await customers.query({ pk: 'USER#1' }).exec();
+ * for (const row of rows) {
+ *   if (row.entity === 'Order') console.log(row.item.total);
+ * }
+ * ```
+ */
+export class EntityTable<const TModels extends readonly AnyModel[]> {
+	private readonly models = new Map<string, AnyModel>();
+	private readonly config: ModelConfig<any>;
+	private readonly typeAttribute: string;
+
+	constructor(
+		private readonly client: DynamoDBDocument,
+		models: TModels,
+	) {
+		const [first] = models;
+		if (!first) {
+			throw new ValidationError("A table requires at least one model");
+		}
+		this.typeAttribute = getTypeAttribute(first.config);
+
+		for (const model of models) {
+			const { entity, tableName, hashKey, rangeKey } = model.config;
+			if (!entity) {
+				throw new ValidationError(
+					`Models in a table require an entity, a model of '${tableName}' has none`,
+				);
+			}
+			if (this.models.has(entity)) {
+				throw new ValidationError(`Entity '${entity}' is defined twice`);
+			}
+			if (
+				tableName !== first.config.tableName ||
+				hashKey !== first.config.hashKey ||
+				rangeKey !== first.config.rangeKey ||
+				getTypeAttribute(model.config) !== this.typeAttribute
+			) {
+				throw new ValidationError(
+					`Entity '${entity}' must share the table name, key attributes and type attribute of '${first.config.entity}'`,
+				);
+			}
+			this.models.set(entity, model);
+		}
+
+		this.config = { ...first.config, entity: undefined };
+	}
+
+	/**
+	 * Queries a partition of the table, e.g. a user and their orders. Key
+	 * conditions, indexes and pagination work as on `Model.query()`.
+	 */
+	query(keyValues: TableKeyValues<TModels>): TableQueryBuilder<TModels> {
+		return new QueryBuilder(
+			this.client,
+			this.config,
+			keyValues,
+			undefined,
+			this.reader(),
+		) as TableQueryBuilder<TModels>;
+	}
+
+	scan(): TableScanBuilder<TModels> {
+		return new ScanBuilder(
+			this.client,
+			this.config,
+			undefined,
+			this.reader(),
+		) as TableScanBuilder<TModels>;
+	}
+
+	private reader(): EntityReader<EntityItem<TModels[number]>> {
+		return {
+			entities: [...this.models.keys()],
+			parse: (item: Record<string, NativeAttributeValue>) => {
+				const entity = item[this.typeAttribute];
+				const model = this.models.get(entity);
+				if (!model) {
+					throw new ValidationError(
+						`Item has no known entity in '${this.typeAttribute}': ${JSON.stringify(entity)}`,
+					);
+				}
+				return {
+					entity,
+					item: model.validateAndTransform(item),
+				} as EntityItem<TModels[number]>;
+			},
+		};
+	}
+}
@@ -1,13 +1,83 @@
-import type { DynamoDBDocument } from "@aws-sdk/lib-dynamodb";
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import type {
+	BatchGetCommandOutput,
+	BatchWriteCommandOutput,
+	DeleteCommandInput,
+	DynamoDBDocument,
+	GetCommandOutput,
+	NativeAttributeValue,
+	PutCommandInput,
+	UpdateCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
 import { z } from "zod";
-import { ItemNotFoundError, ValidationError } from "./errors/DynamoDBError.js";
+import { ConditionBuilder } from "./condition/ConditionBuilder.js";
+import {
+	ConditionalCheckFailedError,
+	type DynamoDBError,
+	type DynamoDBErrorContext,
+	ItemNotFoundError,
+	UnprocessedItemsError,
+	ValidationError,
+	VersionConflictError,
+} from "./errors/DynamoDBError.js";
+import { mapError } from "./errors/mapError.js";
 import { QueryBuilder } from "./query/QueryBuilder.js";
+import { QueryExpressions } from "./query/QueryExpressions.js";
+import { ScanBuilder } from "./scan/ScanBuilder.js";
 import type {
-	IndexInfo,
+	BatchWriteOptions,
+	BatchWriteRequest,
+	BatchWriteResult,
+	ConditionCheckRequest,
+	CreateInput,
+	GetManyOptions,
+	GetOptions,
+	IndexKeyValues,
+	IndexNames,
 	ModelConfig,
 	ModelOptions,
+	PreparedWrite,
+	PutInput,
+	RetryPolicy,
+	SelectedItem,
+	UpdateAction,
 	UpdateInput,
+	WriteOperation,
+	WriteOptions,
 } from "./types/Model.js";
+import type {
+	ConditionExpression,
+	DynamoDBExpression,
+	ItemLoader,
+} from "./types/Query.js";
+import { UpdateExpressions } from "./update/UpdateExpressions.js";
+import { UpdateOperation } from "./update/UpdateOperators.js";
+import { chunk, mapWithConcurrency } from "./utils/async.js";
+import {
+	entityCondition,
+	getTypeAttribute,
+	newOrEntityCondition,
+} from "./utils/entity.js";
+import {
+	type PathSegment,
+	buildProjectionExpression,
+	parsePath,
+	pathsOverlap,
+	pickSchema,
+	resolvePathSchema,
+	unwrapSchema,
+} from "./utils/paths.js";
+import { Backoff, withRetry } from "./utils/retry.js";
+
+// DynamoDB API behind each write, reported as the error's operation
+const WRITE_API_OPERATIONS: Record<WriteOperation, string> = {
+	create: "PutItem",
+	put: "PutItem",
+	update: "UpdateItem",
+	destroy: "DeleteItem",
+	conditionCheck: "ConditionCheck",
+};
 
 type PrimaryKey<
 	TSchema extends z.ZodObject<any>,
@@ -34,135 +104,1000 @@ export class Model<
 		public readonly config: TConfig,
 	) {}
 
-	async get(
+	async get<const K extends keyof z.infer<TSchema> = keyof z.infer<TSchema>>(
 		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
-		options: ModelOptions = {},
-	): Promise<z.infer<TSchema> | null> {
-		const result = await this.client.get({
-			TableName: this.config.tableName,
-			Key: key,
-			ConsistentRead: options.consistentRead,
-		});
+		options: GetOptions<K> = {},
+	): Promise<SelectedItem<z.infer<TSchema>, K> | null> {
+		let result: GetCommandOutput;
+		try {
+			result = await withRetry(
+				() =>
+					this.client.get({
+						TableName: this.config.tableName,
+						Key: key,
+						ConsistentRead: options.consistentRead,
+						...this.buildProjectionParams(options.attributes),
+					}),
+				this.backoff("GetItem", options.retry),
+			);
+		} catch (error) {
+			throw mapError(error, this.errorContext("GetItem"));
+		}
 
-		if (!result.Item) {
+		if (!result.Item || !this.ownsItem(result.Item)) {
 			return null;
 		}
 
-		return this.validateAndTransform(result.Item);
+		return this.validateSelected(result.Item, options.attributes);
 	}
 
 	async create(
-		item: Omit<z.infer<TSchema>, "createdAt" | "updatedAt">,
+		item: CreateInput<TSchema, TConfig>,
+		options: WriteOptions<TSchema> = {},
 	): Promise<z.infer<TSchema>> {
-		const now = new Date().toISOString();
-		const timestamps = this.getTimestamps(now, now);
+		const write = this.buildPutRequest(item, options, "create");
 
-		const itemToSave = {
-			...item,
-			...timestamps,
-		} as z.infer<TSchema>;
+		try {
+			await withRetry(
+				() => this.client.put(write.request),
+				this.backoff("PutItem", options.retry),
+			);
+		} catch (error) {
+			throw this.toWriteError(error, "create", write);
+		}
 
-		const validatedItem = this.validateAndTransform(itemToSave);
+		return write.item;
+	}
 
-		await this.client.put({
-			TableName: this.config.tableName,
-			Item: validatedItem,
-			ConditionExpression: `attribute_not_exists(${String(this.config.hashKey)})`,
-		});
+	/**
+	 * Creates or fully replaces an item. Unlike `create`, an existing item with
+	 * the same key is overwritten unless a `condition` prevents it.
+	 */
+	async put(
+		item: PutInput<TSchema, TConfig>,
+		options: WriteOptions<TSchema> = {},
+	): Promise<z.infer<TSchema>> {
+		const write = this.buildPutRequest(item, options, "put");
+
+		try {
+			await withRetry(
+				() => this.client.put(write.request),
+				this.backoff("PutItem", options.retry),
+			);
+		} catch (error) {
+			throw this.toWriteError(error, "put", write);
+		}
 
-		return validatedItem;
+		return write.item;
 	}
 
 	async update(
 		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
 		updates: UpdateInput<z.infer<TSchema>>,
+		options: WriteOptions<TSchema> = {},
 	): Promise<z.infer<TSchema>> {
-		const existingItem = await this.get(key, { consistentRead: true });
-		if (!existingItem) {
-			throw new ItemNotFoundError(
-				`Item with key ${JSON.stringify(key)} not found`,
+		const write = this.buildUpdateRequest(key, updates, options);
+
+		try {
+			const result = await withRetry(
+				() => this.client.update({ ...write.request, ReturnValues: "ALL_NEW" }),
+				this.backoff("UpdateItem", options.retry),
 			);
+
+			return this.validateAndTransform(result.Attributes);
+		} catch (error) {
+			throw this.toWriteError(error, "update", write);
 		}
+	}
 
-		const now = new Date().toISOString();
-		const timestamps = this.getTimestamps(existingItem.createdAt, now);
+	/**
+	 * Reads many items with `BatchGetItem`, 100 keys per request. Repeated keys
+	 * are fetched once, `UnprocessedKeys` are retried with backoff, and results
+	 * follow the input order. With `alignToKeys: true` the result has one entry
+	 * per input key, `null` for misses.
+	 */
+	async getMany<
+		const K extends keyof z.infer<TSchema> = keyof z.infer<TSchema>,
+	>(
+		keys: PrimaryKey<TSchema, THashKey, TRangeKey>[],
+		options: GetManyOptions<K> & { alignToKeys: true },
+	): Promise<(SelectedItem<z.infer<TSchema>, K> | null)[]>;
+	async getMany<
+		const K extends keyof z.infer<TSchema> = keyof z.infer<TSchema>,
+	>(
+		keys: PrimaryKey<TSchema, THashKey, TRangeKey>[],
+		options?: GetManyOptions<K>,
+	): Promise<SelectedItem<z.infer<TSchema>, K>[]>;
+	async getMany(
+		keys: PrimaryKey<TSchema, THashKey, TRangeKey>[],
+		options: GetManyOptions = {},
+	): Promise<(Partial<z.infer<TSchema>> | null)[]> {
+		const { concurrency = 4 } = options;
+		const tableName = this.config.tableName;
 
-		const updatedItem = {
-			...existingItem,
-			...updates,
-			...timestamps,
-		} as z.infer<TSchema>;
+		const uniqueKeys = new Map<
+			string,
+			PrimaryKey<TSchema, THashKey, TRangeKey>
+		>();
+		for (const key of keys) {
+			uniqueKeys.set(JSON.stringify(this.extractKey(key)), key);
+		}
+
+		const found = new Map<string, Partial<z.infer<TSchema>>>();
+		// Key attributes are always read so results can be matched to keys
+		const projection = this.buildProjectionParams(
+			options.attributes && [
+				...new Set([
+					...options.attributes,
+					this.config.hashKey,
+					...(this.config.rangeKey ? [this.config.rangeKey] : []),
+				]),
+			],
+		);
 
-		const validatedItem = this.validateAndTransform(updatedItem);
+		// DynamoDB BatchGetItem has a limit of 100 items per request
+		await mapWithConcurrency(
+			chunk([...uniqueKeys.values()], 100),
+			concurrency,
+			async (batch) => {
+				let pending: Record<string, NativeAttributeValue>[] = batch;
+				// Shared by throttled requests and UnprocessedKeys
+				const backoff = this.backoff("BatchGetItem", options.retry);
+
+				while (pending.length > 0) {
+					let result: BatchGetCommandOutput;
+					try {
+						result = await withRetry(
+							() =>
+								this.client.batchGet({
+									RequestItems: {
+										[tableName]: {
+											Keys: pending,
+											ConsistentRead: options.consistentRead,
+											...projection,
+										},
+									},
+								}),
+							backoff,
+						);
+					} catch (error) {
+						throw mapError(error, this.errorContext("BatchGetItem"));
+					}
+
+					for (const item of result.Responses?.[tableName] ?? []) {
+						if (!this.ownsItem(item)) {
+							continue;
+						}
+						found.set(
+							JSON.stringify(this.extractKey(item)),
+							this.validateSelected(item, options.attributes),
+						);
+					}
+
+					pending = result.UnprocessedKeys?.[tableName]?.Keys ?? [];
+					if (
+						pending.length > 0 &&
+						!(await backoff.next({ unprocessed: pending.length }))
+					) {
+						throw new UnprocessedItemsError(
+							`${pending.length} keys were not processed after ${backoff.retries} retries`,
+						);
+					}
+				}
+			},
+		);
+
+		if (options.alignToKeys) {
+			return keys.map(
+				(key) => found.get(JSON.stringify(this.extractKey(key))) ?? null,
+			);
+		}
 
-		await this.client.put({
-			TableName: this.config.tableName,
-			Item: validatedItem,
+		return [...uniqueKeys.keys()].flatMap((id) => {
+			const item = found.get(id);
+			return item ? [item] : [];
 		});
+	}
+
+	async destroy(
+		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
+		options: WriteOptions<TSchema> = {},
+	): Promise<z.infer<TSchema> | null> {
+		const write = this.buildDeleteRequest(key, options);
+
+		try {
+			const result = await withRetry(
+				() => this.client.delete({ ...write.request, ReturnValues: "ALL_OLD" }),
+				this.backoff("DeleteItem", options.retry),
+			);
 
-		return validatedItem;
+			if (!result.Attributes) {
+				return null;
+			}
+
+			return this.validateAndTransform(result.Attributes);
+		} catch (error) {
+			throw this.toWriteError(error, "destroy", write);
+		}
 	}
 
-	async getMany(
+	/**
+	 * Writes many items with `BatchWriteItem`, 25 per request. Every item is
+	 * validated before anything is written. Batch writes overwrite existing
+	 * items and cannot carry conditions.
+	 */
+	async putMany(
+		items: CreateInput<TSchema, TConfig>[],
+		options: BatchWriteOptions = {},
+	): Promise<BatchWriteResult<z.infer<TSchema>>> {
+		this.assertBatchWritable();
+
+		const now = new Date().toISOString();
+		const timestamps = this.getTimestamps(now, now);
+
+		const validatedItems = items.map((item, index) => {
+			try {
+				return this.validateAndTransform({ ...item, ...timestamps });
+			} catch (error) {
+				if (error instanceof ValidationError) {
+					throw new ValidationError(`Item ${index}: ${error.message}`);
+				}
+				throw error;
+			}
+		});
+
+		return this.executeBatchWrite(
+			validatedItems.map((item) => ({
+				value: item,
+				id: JSON.stringify(this.extractKey(item)),
+				request: { PutRequest: { Item: this.withEntity(item) } },
+			})),
+			options,
+		);
+	}
+
+	/**
+	 * Deletes many items with `BatchWriteItem`, 25 per request. Batch writes
+	 * take no conditions, so on entity models the keys are not checked
+	 * against the type attribute: a key of another entity's item deletes it.
+	 */
+	async destroyMany(
 		keys: PrimaryKey<TSchema, THashKey, TRangeKey>[],
-		options: ModelOptions = {},
-	): Promise<z.infer<TSchema>[]> {
-		if (keys.length === 0) {
+		options: BatchWriteOptions = {},
+	): Promise<BatchWriteResult<PrimaryKey<TSchema, THashKey, TRangeKey>>> {
+		this.assertBatchWritable();
+
+		return this.executeBatchWrite(
+			keys.map((key) => ({
+				value: key,
+				id: JSON.stringify(this.extractKey(key)),
+				request: { DeleteRequest: { Key: key } },
+			})),
+			options,
+		);
+	}
+
+	/**
+	 * Runs 25-item chunks with bounded concurrency and retries
+	 * `UnprocessedItems` with capped exponential backoff and full jitter.
+	 * Chunks that fail outright, or stay unprocessed after `maxRetries`,
+	 * are reported in `failed` instead of rejecting the whole call.
+	 */
+	private async executeBatchWrite<T>(
+		entries: { value: T; id: string; request: BatchWriteRequest }[],
+		options: BatchWriteOptions,
+	): Promise<BatchWriteResult<T>> {
+		const { concurrency = 4 } = options;
+		const tableName = this.config.tableName;
+		const result: BatchWriteResult<T> = { written: [], failed: [] };
+
+		const ids = new Set(entries.map((entry) => entry.id));
+		if (ids.size !== entries.length) {
+			throw new ValidationError("Batch write contains duplicate keys");
+		}
+
+		// DynamoDB BatchWriteItem has a limit of 25 items per request
+		await mapWithConcurrency(chunk(entries, 25), concurrency, async (batch) => {
+			let pending = batch;
+			// Shared by throttled requests and UnprocessedItems
+			const backoff = this.backoff("BatchWriteItem", options.retry);
+
+			while (pending.length > 0) {
+				let response: BatchWriteCommandOutput;
+				try {
+					response = await withRetry(
+						() =>
+							this.client.batchWrite({
+								RequestItems: {
+									[tableName]: pending.map((entry) => entry.request),
+								},
+							}),
+						backoff,
+					);
+				} catch (error) {
+					const mapped = mapError(error, this.errorContext("BatchWriteItem"));
+					for (const entry of pending) {
+						result.failed.push({ item: entry.value, error: mapped });
+					}
+					return;
+				}
+
+				const unprocessed = new Set(
+					(response.UnprocessedItems?.[tableName] ?? []).map((request) =>
+						JSON.stringify(
+							this.extractKey(
+								request.PutRequest?.Item ?? request.DeleteRequest?.Key ?? {},
+							),
+						),
+					),
+				);
+
+				for (const entry of pending) {
+					if (!unprocessed.has(entry.id)) {
+						result.written.push(entry.value);
+					}
+				}
+				pending = pending.filter((entry) => unprocessed.has(entry.id));
+
+				if (
+					pending.length > 0 &&
+					!(await backoff.next({ unprocessed: pending.length }))
+				) {
+					for (const entry of pending) {
+						result.failed.push({
+							item: entry.value,
+							error: new UnprocessedItemsError(
+								`Item ${entry.id} was not processed after ${backoff.retries} retries`,
+							),
+						});
+					}
+					return;
+				}
+			}
+		});
+
+		return result;
+	}
+
+	private assertBatchWritable(): void {
+		if (this.getVersionAttribute()) {
+			throw new ValidationError(
+				`Model '${this.config.tableName}' is versioned, batch writes cannot enforce optimistic locking`,
+			);
+		}
+	}
+
+	/**
+	 * Builds the PutItem request for `create`/`put`. Also used by transactions.
+	 */
+	buildPutRequest(
+		item: Record<string, any>,
+		options: WriteOptions<TSchema>,
+		operation: "create" | "put",
+	): PreparedWrite<PutCommandInput> & { item: z.infer<TSchema> } {
+		const now = new Date().toISOString();
+		const timestamps = this.getTimestamps(now, now);
+		const versionAttribute = this.getVersionAttribute();
+		const guards: ConditionExpression[] = [];
+		let expectedVersion: number | undefined;
+
+		const itemToSave: Record<string, any> = {
+			...item,
+			...timestamps,
+		};
+
+		if (operation === "create") {
+			guards.push(
+				QueryExpressions.createCondition(
+					String(this.config.hashKey),
+					"attribute_not_exists",
+					undefined,
+				),
+			);
+		}
+
+		if (versionAttribute) {
+			expectedVersion =
+				operation === "put" ? itemToSave[versionAttribute] : undefined;
+			itemToSave[versionAttribute] = (expectedVersion ?? 0) + 1;
+			if (operation === "put") {
+				guards.push(this.buildVersionCondition(expectedVersion));
+			}
+		}
+
+		// create already requires a new item
+		const entityGuard = operation === "put" ? this.buildEntityGuard(true) : [];
+		guards.push(...entityGuard);
+
+		const validatedItem = this.validateAndTransform(itemToSave);
+		const condition = this.buildCondition(options, [], guards);
+
+		return {
+			request: {
+				TableName: this.config.tableName,
+				Item: this.withEntity(validatedItem),
+				...this.buildConditionParams(condition),
+				ReturnValuesOnConditionCheckFailure:
+					versionAttribute || entityGuard.length > 0
+						? "ALL_OLD"
+						: options.returnValuesOnConditionCheckFailure,
+			},
+			item: validatedItem,
+			key: this.extractKey(validatedItem),
+			expectedVersion,
+		};
+	}
+
+	/**
+	 * Builds the UpdateItem request for `update`. Also used by transactions.
+	 */
+	buildUpdateRequest(
+		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
+		updates: UpdateInput<z.infer<TSchema>>,
+		options: WriteOptions<TSchema>,
+	): PreparedWrite<UpdateCommandInput & { UpdateExpression: string }> {
+		const now = new Date().toISOString();
+		const changes: Record<string, unknown> = {
+			...updates,
+			...this.getTimestamps(undefined, now),
+		};
+
+		// Value keys taken so far, shared by every action of this update
+		const valueKeys: string[] = [];
+		const actions = this.buildUpdateActions(changes, valueKeys);
+		if (actions.length === 0) {
+			throw new ValidationError("Update requires at least one changed field");
+		}
+
+		const versionAttribute = this.getVersionAttribute();
+		const expectedVersion = this.requireExpectedVersion(options);
+		if (versionAttribute) {
+			actions.push(
+				UpdateExpressions.createAction(versionAttribute, "add", 1, valueKeys),
+			);
+		}
+
+		const updateExpression = UpdateExpressions.buildExpression(actions);
+		const reservedValueKeys = Object.keys(updateExpression.attributeValues);
+		const guards = [
+			QueryExpressions.createCondition(
+				String(this.config.hashKey),
+				"attribute_exists",
+				undefined,
+			),
+		];
+		if (versionAttribute) {
+			guards.push(
+				this.buildVersionCondition(expectedVersion, reservedValueKeys),
+			);
+		}
+		guards.push(...this.buildEntityGuard(false));
+		const condition = this.buildCondition(options, reservedValueKeys, guards);
+
+		return {
+			request: {
+				TableName: this.config.tableName,
+				Key: key,
+				UpdateExpression: updateExpression.expression,
+				...this.buildConditionParams(condition, updateExpression),
+				// The current item tells a missing item apart from a failed condition
+				ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+			},
+			key,
+			expectedVersion,
+		};
+	}
+
+	/**
+	 * Builds the DeleteItem request for `destroy`. Also used by transactions.
+	 */
+	buildDeleteRequest(
+		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
+		options: WriteOptions<TSchema>,
+	): PreparedWrite<DeleteCommandInput> {
+		const versionAttribute = this.getVersionAttribute();
+		const expectedVersion = this.requireExpectedVersion(options);
+		const guards = [
+			...(versionAttribute
+				? [this.buildVersionCondition(expectedVersion)]
+				: []),
+			...this.buildEntityGuard(true),
+		];
+		const condition = this.buildCondition(options, [], guards);
+
+		return {
+			request: {
+				TableName: this.config.tableName,
+				Key: key,
+				...this.buildConditionParams(condition),
+				ReturnValuesOnConditionCheckFailure:
+					versionAttribute || this.config.entity
+						? "ALL_OLD"
+						: options.returnValuesOnConditionCheckFailure,
+			},
+			key,
+			expectedVersion,
+		};
+	}
+
+	/**
+	 * Runs the caller's condition callback, prefixed by the write's own guards
+	 * (key existence, version), and returns the combined ConditionExpression.
+	 */
+	private buildCondition(
+		options: WriteOptions<TSchema>,
+		reservedValueKeys: string[] = [],
+		guards: ConditionExpression[] = [],
+	): DynamoDBExpression | undefined {
+		const builder = new ConditionBuilder(this.config.schema, [
+			...reservedValueKeys,
+			...guards.flatMap((guard) => Object.keys(guard.attributeValues)),
+		]);
+		for (const guard of guards) {
+			builder.add(guard);
+		}
+		options.condition?.(builder);
+
+		return builder.isEmpty() ? undefined : builder.build();
+	}
+
+	private buildConditionParams(
+		condition?: DynamoDBExpression,
+		updateExpression?: DynamoDBExpression,
+	) {
+		const attributeNames = {
+			...updateExpression?.attributeNames,
+			...condition?.attributeNames,
+		};
+		const attributeValues = {
+			...updateExpression?.attributeValues,
+			...condition?.attributeValues,
+		};
+
+		return {
+			ConditionExpression: condition?.expression,
+			ExpressionAttributeNames:
+				Object.keys(attributeNames).length > 0 ? attributeNames : undefined,
+			ExpressionAttributeValues:
+				Object.keys(attributeValues).length > 0 ? attributeValues : undefined,
+		};
+	}
+
+	private getVersionAttribute(): string | undefined {
+		return this.config.version
+			? String(this.config.version.attribute)
+			: undefined;
+	}
+
+	private requireExpectedVersion(
+		options: WriteOptions<TSchema>,
+	): number | undefined {
+		const versionAttribute = this.getVersionAttribute();
+		if (versionAttribute && options.expectedVersion === undefined) {
+			throw new ValidationError(
+				`Model '${this.config.tableName}' is versioned, 'expectedVersion' is required`,
+			);
+		}
+		return versionAttribute ? options.expectedVersion : undefined;
+	}
+
+	/**
+	 * `#version = :expected`, or `attribute_not_exists(#version)` when the
+	 * item is written for the first time.
+	 */
+	private buildVersionCondition(
+		expectedVersion: number | undefined,
+		reservedValueKeys: string[] = [],
+	): ConditionExpression {
+		const versionAttribute = this.getVersionAttribute() as string;
+		if (expectedVersion === undefined) {
+			return QueryExpressions.createCondition(
+				versionAttribute,
+				"attribute_not_exists",
+				undefined,
+			);
+		}
+		return QueryExpressions.createCondition(
+			versionAttribute,
+			"=",
+			expectedVersion,
+			reservedValueKeys,
+		);
+	}
+
+	/**
+	 * Keeps writes of an entity model off items of other entities. With
+	 * `allowNew`, the write may also create the item.
+	 */
+	private buildEntityGuard(allowNew: boolean): ConditionExpression[] {
+		const entity = this.config.entity;
+		if (!entity) {
 			return [];
 		}
+		const typeAttribute = getTypeAttribute(this.config);
+		return [
+			allowNew
+				? newOrEntityCondition(
+						String(this.config.hashKey),
+						typeAttribute,
+						entity,
+					)
+				: entityCondition(typeAttribute, [entity]),
+		];
+	}
 
-		// DynamoDB BatchGetItem has a limit of 100 items per request
-		const batches: PrimaryKey<TSchema, THashKey, TRangeKey>[][] = [];
-		for (let i = 0; i < keys.length; i += 100) {
-			batches.push(keys.slice(i, i + 100));
-		}
-
-		const results: z.infer<TSchema>[] = [];
-
-		const batchResults = await Promise.all(
-			batches.map((batch) =>
-				this.client.batchGet({
-					RequestItems: {
-						[this.config.tableName]: {
-							Keys: batch,
-							ConsistentRead: options.consistentRead,
-						},
-					},
-				}),
+	/**
+	 * Whether a stored item belongs to this model. Always true for models
+	 * without an `entity`.
+	 */
+	ownsItem(item: Record<string, NativeAttributeValue>): boolean {
+		return (
+			!this.config.entity ||
+			item[getTypeAttribute(this.config)] === this.config.entity
+		);
+	}
+
+	private withEntity(
+		item: Record<string, NativeAttributeValue>,
+	): Record<string, NativeAttributeValue> {
+		return this.config.entity
+			? { ...item, [getTypeAttribute(this.config)]: this.config.entity }
+			: item;
+	}
+
+	/**
+	 * Builds a transaction ConditionCheck on an item without writing it.
+	 */
+	buildConditionCheckRequest(
+		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
+		options: WriteOptions<TSchema>,
+	): PreparedWrite<ConditionCheckRequest> {
+		const versionAttribute = this.getVersionAttribute();
+		const expectedVersion = versionAttribute
+			? options.expectedVersion
+			: undefined;
+		const guards =
+			expectedVersion !== undefined
+				? [this.buildVersionCondition(expectedVersion)]
+				: [];
+		const condition = this.buildCondition(options, [], guards);
+		if (!condition) {
+			throw new ValidationError("Condition check requires a condition");
+		}
+
+		return {
+			request: {
+				TableName: this.config.tableName,
+				Key: key,
+				...this.buildConditionParams(condition),
+				ConditionExpression: condition.expression,
+				ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+			},
+			key,
+			expectedVersion,
+		};
+	}
+
+	private toWriteError(
+		error: unknown,
+		operation: WriteOperation,
+		write: PreparedWrite<unknown>,
+	): Error {
+		const context = this.errorContext(WRITE_API_OPERATIONS[operation]);
+		if (!(error instanceof ConditionalCheckFailedException)) {
+			return mapError(error, context);
+		}
+
+		return mapError(
+			error,
+			context,
+			this.mapConditionFailure(
+				error.Item ? unmarshall(error.Item) : undefined,
+				operation,
+				write,
 			),
 		);
+	}
+
+	private errorContext(operation: string): DynamoDBErrorContext {
+		return { operation, tableName: this.config.tableName };
+	}
+
+	private backoff(operation: string, policy?: RetryPolicy): Backoff {
+		return new Backoff(
+			{ operation, tableName: this.config.tableName },
+			this.config.retry,
+			policy,
+		);
+	}
+
+	/**
+	 * Maps a failed conditional write to the library's error classes:
+	 * a missing item on update, a version mismatch, or a failed condition.
+	 * `current` is the item returned via ReturnValuesOnConditionCheckFailure.
+	 */
+	mapConditionFailure(
+		current: Record<string, NativeAttributeValue> | undefined,
+		operation: WriteOperation,
+		write: PreparedWrite<unknown>,
+	): DynamoDBError {
+		const keyText = JSON.stringify(write.key);
+		const versionAttribute = this.getVersionAttribute();
+
+		if (operation === "update" && !current) {
+			return new ItemNotFoundError(`Item with key ${keyText} not found`);
+		}
+
+		if (current && operation !== "conditionCheck" && !this.ownsItem(current)) {
+			return new ConditionalCheckFailedError(
+				`Item with key ${keyText} belongs to entity '${current[getTypeAttribute(this.config)]}', not '${this.config.entity}'`,
+				current,
+			);
+		}
 
-		for (const result of batchResults) {
-			if (!result.Responses?.[this.config.tableName]) {
-				continue;
+		if (
+			versionAttribute &&
+			operation !== "create" &&
+			(operation !== "conditionCheck" || write.expectedVersion !== undefined)
+		) {
+			const actualVersion = current?.[versionAttribute];
+			if (actualVersion !== write.expectedVersion) {
+				return new VersionConflictError(
+					`Version conflict on item with key ${keyText}: expected ${write.expectedVersion}, found ${actualVersion}`,
+					write.expectedVersion,
+					actualVersion,
+				);
 			}
-			for (const item of result.Responses[this.config.tableName]) {
-				results.push(this.validateAndTransform(item));
+		}
+
+		return new ConditionalCheckFailedError(
+			`Conditional check failed on ${operation} of item with key ${keyText}`,
+			current,
+		);
+	}
+
+	private extractKey(item: Record<string, any>): Record<string, unknown> {
+		const hashKey = String(this.config.hashKey);
+		const key: Record<string, unknown> = { [hashKey]: item[hashKey] };
+		if (this.config.rangeKey) {
+			const rangeKey = String(this.config.rangeKey);
+			key[rangeKey] = item[rangeKey];
+		}
+		return key;
+	}
+
+	private buildProjectionParams(attributes?: readonly PropertyKey[]):
+		| {
+				ProjectionExpression: string;
+				ExpressionAttributeNames: Record<string, string>;
+		  }
+		| undefined {
+		if (!attributes) {
+			return undefined;
+		}
+		const names = attributes.map(String);
+		pickSchema(this.config.schema, names);
+		// The type attribute tells whether the item belongs to this model
+		const projection = buildProjectionExpression(
+			this.config.entity ? [...names, getTypeAttribute(this.config)] : names,
+		);
+		return {
+			ProjectionExpression: projection.expression,
+			ExpressionAttributeNames: projection.attributeNames,
+		};
+	}
+
+	/**
+	 * Validates an item read with a ProjectionExpression against the schema
+	 * narrowed to the selected attributes.
+	 */
+	private validateSelected(
+		item: Record<string, any>,
+		attributes?: readonly PropertyKey[],
+	): any {
+		if (!attributes) {
+			return this.validateAndTransform(item);
+		}
+		return this.parseWithSchema(
+			pickSchema(this.config.schema, attributes.map(String)),
+			item,
+		);
+	}
+
+	validateAndTransform(item: any): z.infer<TSchema> {
+		let attributes = item;
+		if (this.config.entity && item) {
+			const { [getTypeAttribute(this.config)]: _, ...rest } = item;
+			attributes = rest;
+		}
+		try {
+			return this.config.schema.parse(attributes);
+		} catch (error) {
+			if (error instanceof z.ZodError) {
+				throw new ValidationError(
+					`Validation failed: ${error.issues.map((i) => i.message).join(", ")}`,
+				);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Validates only the changed attributes or document paths against the
+	 * schema and turns them into SET/REMOVE/ADD/DELETE actions. Paths set to
+	 * `undefined` or `$remove()` are removed; update operators are checked
+	 * against the Zod type at the path.
+	 */
+	private buildUpdateActions(
+		changes: Record<string, unknown>,
+		valueKeys: string[],
+	): UpdateAction[] {
+		const keyFields = [this.config.hashKey, this.config.rangeKey]
+			.filter((field) => field !== undefined)
+			.map(String);
+		const shape = this.config.schema.shape;
+
+		const setValues: Record<string, unknown> = {};
+		const actions: UpdateAction[] = [];
+		const seenPaths: { path: string; segments: PathSegment[] }[] = [];
+
+		for (const [path, value] of Object.entries(changes)) {
+			const segments = parsePath(path);
+			const root = String(segments[0]);
+
+			if (keyFields.includes(root)) {
+				throw new ValidationError(`Cannot update key attribute '${root}'`);
+			}
+			if (root === this.getVersionAttribute()) {
+				throw new ValidationError(
+					`Cannot update version attribute '${root}' directly`,
+				);
+			}
+			if (!(root in shape)) {
+				throw new ValidationError(`Unknown attribute '${root}'`);
+			}
+			const overlapping = seenPaths.find((seen) =>
+				pathsOverlap(seen.segments, segments),
+			);
+			if (overlapping) {
+				throw new ValidationError(
+					`Update paths '${overlapping.path}' and '${path}' overlap`,
+				);
+			}
+			seenPaths.push({ path, segments });
+
+			if (value === undefined || value instanceof UpdateOperation) {
+				actions.push(this.buildOperatorAction(path, value, valueKeys));
+			} else if (segments.length > 1) {
+				actions.push(
+					UpdateExpressions.createAction(
+						path,
+						"set",
+						this.parseWithSchema(this.requirePathSchema(path), value),
+						valueKeys,
+					),
+				);
+			} else {
+				setValues[path] = value;
 			}
 		}
 
-		return results;
+		const mask = Object.fromEntries(
+			Object.keys(setValues).map((field) => [field, true as const]),
+		);
+		const validated = this.parseWithSchema(
+			this.config.schema.pick(mask),
+			setValues,
+		);
+
+		return [
+			...Object.entries(validated).map(([field, value]) =>
+				UpdateExpressions.createAction(field, "set", value, valueKeys),
+			),
+			...actions,
+		];
 	}
 
-	async destroy(
-		key: any, // Will be properly typed by the factory
-	): Promise<z.infer<TSchema> | null> {
-		const result = await this.client.delete({
-			TableName: this.config.tableName,
-			Key: key,
-			ReturnValues: "ALL_OLD",
-		});
+	private requirePathSchema(path: string): z.ZodTypeAny {
+		const pathSchema = resolvePathSchema(this.config.schema, path);
+		if (!pathSchema) {
+			throw new ValidationError(`Unknown document path '${path}'`);
+		}
+		return pathSchema;
+	}
 
-		if (!result.Attributes) {
-			return null;
+	private buildOperatorAction(
+		field: string,
+		operation: UpdateOperation | undefined,
+		valueKeys: string[],
+	): UpdateAction {
+		const fieldSchema = this.requirePathSchema(field);
+		const fieldType = unwrapSchema(fieldSchema);
+
+		if (operation === undefined || operation.kind === "remove") {
+			// Removing a list element shifts the rest, so the list stays valid
+			const isListElement = field.endsWith("]");
+			if (!fieldSchema.isOptional() && !isListElement) {
+				throw new ValidationError(
+					`Cannot remove required attribute '${field}'`,
+				);
+			}
+			return UpdateExpressions.createAction(field, "remove");
 		}
 
-		return this.validateAndTransform(result.Attributes);
+		switch (operation.kind) {
+			case "add":
+				if (!(fieldType instanceof z.ZodNumber)) {
+					throw new ValidationError(
+						`Counter operators require a numeric field, '${field}' is not a number`,
+					);
+				}
+				if (
+					typeof operation.value !== "number" ||
+					!Number.isFinite(operation.value)
+				) {
+					throw new ValidationError(
+						`Counter operand for '${field}' must be a finite number`,
+					);
+				}
+				return UpdateExpressions.createAction(
+					field,
+					"add",
+					operation.value,
+					valueKeys,
+				);
+
+			case "append":
+			case "prepend":
+				if (!(fieldType instanceof z.ZodArray)) {
+					throw new ValidationError(
+						`List operators require an array field, '${field}' is not an array`,
+					);
+				}
+				return UpdateExpressions.createAction(
+					field,
+					operation.kind,
+					this.parseWithSchema(z.array(fieldType.element), operation.value),
+					valueKeys,
+				);
+
+			case "setAdd":
+			case "setDelete": {
+				if (!(fieldType instanceof z.ZodSet)) {
+					throw new ValidationError(
+						`Set operators require a set field, '${field}' is not a set`,
+					);
+				}
+				const members = this.parseWithSchema(
+					z.set(fieldType._def.valueType),
+					operation.value,
+				);
+				if (members.size === 0) {
+					throw new ValidationError(
+						`Set operator for '${field}' requires at least one value`,
+					);
+				}
+				return UpdateExpressions.createAction(
+					field,
+					operation.kind === "setAdd" ? "add" : "delete",
+					members,
+					valueKeys,
+				);
+			}
+
+			default:
+				throw new ValidationError(
+					`Unsupported update operator '${operation.kind}' for '${field}'`,
+				);
+		}
 	}
 
-	private validateAndTransform(item: any): z.infer<TSchema> {
+	private parseWithSchema<T extends z.ZodTypeAny>(
+		schema: T,
+		value: unknown,
+	): z.infer<T> {
 		try {
-			return this.config.schema.parse(item);
+			return schema.parse(value);
 		} catch (error) {
 			if (error instanceof z.ZodError) {
 				throw new ValidationError(
@@ -180,9 +1115,52 @@ export class Model<
 			this.client,
 			this.config,
 			keyValues,
+			this.itemLoader(),
+		);
+	}
+
+	/**
+	 * Queries a secondary index, with the index's hash key required by type.
+	 * @example
+	 * const users = await User.queryIndex('EmailIndex', { email }).exec();
+	 */
+	queryIndex<TName extends IndexNames<TConfig>>(
+		indexName: TName,
+		keyValues: IndexKeyValues<TSchema, TConfig, THashKey, TName>,
+	): QueryBuilder<TSchema, THashKey, TRangeKey, TConfig, TName> {
+		return this.query(keyValues as Partial<z.infer<TSchema>>).usingIndex(
+			indexName,
 		);
 	}
 
+	scan(): ScanBuilder<
+		TSchema,
+		TConfig,
+		z.infer<TSchema>,
+		PrimaryKey<TSchema, THashKey, TRangeKey>
+	> {
+		return new ScanBuilder<
+			TSchema,
+			TConfig,
+			z.infer<TSchema>,
+			PrimaryKey<TSchema, THashKey, TRangeKey>
+		>(this.client, this.config, this.itemLoader());
+	}
+
+	/**
+	 * Loads the table items behind index reads for `hydrate()`.
+	 */
+	private itemLoader(): ItemLoader<
+		z.infer<TSchema>,
+		PrimaryKey<TSchema, THashKey, TRangeKey>
+	> {
+		return (keys, attributes) =>
+			this.getMany(keys, {
+				alignToKeys: true,
+				attributes: attributes as (keyof z.infer<TSchema>)[] | undefined,
+			});
+	}
+
 	private getTimestamps(createdAt?: string, updatedAt?: string) {
 		const timestamps: { createdAt?: string; updatedAt?: string } = {};
 
@@ -1,13 +1,31 @@
 import type { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocument } from "@aws-sdk/lib-dynamodb";
 import type { z } from "zod";
+import { EntityTable } from "./EntityTable.js";
 import { Model } from "./Model.js";
-import type { ModelConfig } from "./types/Model.js";
+import { ValidationError } from "./errors/DynamoDBError.js";
+import { mapError } from "./errors/mapError.js";
+import {
+	MAX_TRANSACTION_ITEMS,
+	TransactionBuilder,
+} from "./transaction/TransactionBuilder.js";
+import type {
+	ModelConfig,
+	ModelFactoryOptions,
+	ModelItem,
+	TransactGetOptions,
+	TransactGetRequest,
+} from "./types/Model.js";
+import { DEFAULT_TYPE_ATTRIBUTE } from "./utils/entity.js";
+import { Backoff, withRetry } from "./utils/retry.js";
 
 export class ModelFactory {
 	private readonly documentClient: DynamoDBDocument;
 
-	constructor(private readonly client: DynamoDBClient) {
+	constructor(
+		private readonly client: DynamoDBClient,
+		private readonly options: ModelFactoryOptions = {},
+	) {
 		this.documentClient = DynamoDBDocument.from(client);
 	}
 
@@ -16,12 +34,115 @@ export class ModelFactory {
 		THashKey extends keyof z.infer<TSchema>,
 		TRangeKey extends keyof z.infer<TSchema> | undefined = undefined,
 		TConfig extends ModelConfig<TSchema> = ModelConfig<TSchema>,
+		// Kept as a literal so table results can be narrowed by entity
+		const TEntity extends string | undefined = undefined,
 	>(
 		config: TConfig & {
+			schema: TSchema;
 			hashKey: THashKey;
 			rangeKey?: TRangeKey;
+			entity?: TEntity;
 		},
-	): Model<TSchema, THashKey, TRangeKey, TConfig> {
-		return new Model(this.documentClient, config);
+	): Model<TSchema, THashKey, TRangeKey, TConfig & { entity: TEntity }> {
+		const typeAttribute = config.typeAttribute ?? this.options.typeAttribute;
+		if (
+			config.entity &&
+			(typeAttribute ?? DEFAULT_TYPE_ATTRIBUTE) in config.schema.shape
+		) {
+			throw new ValidationError(
+				`Type attribute '${typeAttribute ?? DEFAULT_TYPE_ATTRIBUTE}' of entity '${config.entity}' must not be part of the schema`,
+			);
+		}
+
+		return new Model<
+			TSchema,
+			THashKey,
+			TRangeKey,
+			TConfig & { entity: TEntity }
+		>(this.documentClient, {
+			...config,
+			cursorSecret: config.cursorSecret ?? this.options.cursorSecret,
+			retry: { ...this.options.retry, ...config.retry },
+			typeAttribute,
+			entity: config.entity as TEntity,
+		});
+	}
+
+	/**
+	 * Reads several entity models that share one table, with results
+	 * tagged by entity. See `EntityTable`.
+	 */
+	table<const TModels extends readonly Model<any, any, any, any>[]>(
+		models: TModels,
+	): EntityTable<TModels> {
+		return new EntityTable(this.documentClient, models);
+	}
+
+	/**
+	 * Starts a cross-model write transaction (`TransactWriteItems`). It is
+	 * retried with the factory's policy, or the one set with `.retry()`;
+	 * the models' own policies do not apply.
+	 */
+	transaction(): TransactionBuilder {
+		return new TransactionBuilder(this.documentClient, this.options.retry);
+	}
+
+	/**
+	 * Reads up to 100 items from any models in one `TransactGetItems` call.
+	 * Results are returned in request order, `null` for missing items.
+	 * Throttled and internal errors are retried with the factory's policy,
+	 * overridden by `options.retry`; the models' own policies do not apply.
+	 *
+	 * @example
+	 * ```typescript
+	 * const [user, order] = await factory.transactGet([
+	 *   { model: User, key: { id: 'user-1' } },
+	 *   { model: Order, key: { id: 'order-1' } },
+	 * ]);
+	 * ```
+	 */
+	async transactGet<const TModels extends readonly Model<any, any, any, any>[]>(
+		requests: { [I in keyof TModels]: TransactGetRequest<TModels[I]> },
+		options: TransactGetOptions = {},
+	): Promise<{ -readonly [I in keyof TModels]: ModelItem<TModels[I]> | null }> {
+		if (requests.length === 0) {
+			return [] as any;
+		}
+		if (requests.length > MAX_TRANSACTION_ITEMS) {
+			throw new ValidationError(
+				`Transactions are limited to ${MAX_TRANSACTION_ITEMS} operations`,
+			);
+		}
+
+		const tableNames = new Set(
+			requests.map(({ model }) => model.config.tableName as string),
+		);
+		try {
+			const result = await withRetry(
+				() =>
+					this.documentClient.transactGet({
+						TransactItems: requests.map(({ model, key }) => ({
+							Get: { TableName: model.config.tableName, Key: key },
+						})),
+					}),
+				new Backoff(
+					{
+						operation: "TransactGetItems",
+						tableName: tableNames.size === 1 ? [...tableNames][0] : undefined,
+					},
+					this.options.retry,
+					options.retry,
+				),
+			);
+
+			return requests.map(({ model }, index) => {
+				const item = result.Responses?.[index]?.Item;
+				return item && model.ownsItem(item)
+					? model.validateAndTransform(item)
+					: null;
+			}) as any;
+		} catch (error) {
+			throw mapError(error, { operation: "TransactGetItems" });
+		}
 	}
 }
@@ -2,6 +2,7 @@ import {
 	CreateTableCommand,
 	DeleteTableCommand,
 	DescribeTableCommand,
+	type DescribeTableCommandOutput,
 	type DynamoDBClient,
 	type GlobalSecondaryIndex,
 	type LocalSecondaryIndex,
@@ -16,8 +17,11 @@ import type { Model } from "./Model.js";
 import {
 	ResourceInUseError,
 	ResourceNotFoundError,
+	ValidationError,
 } from "./errors/DynamoDBError.js";
+import { mapError } from "./errors/mapError.js";
 import type { GSIConfig, ModelConfig } from "./types/Model.js";
+import { getTypeAttribute } from "./utils/entity.js";
 
 // GSI status reporting interface
 export interface GSIStatusReport {
@@ -68,12 +72,13 @@ export class TableManager {
 
 			await this.client.send(command);
 		} catch (error) {
-			if (error instanceof ResourceInUseException) {
-				throw new ResourceInUseError(
-					`Table ${config.tableName} already exists`,
-				);
-			}
-			throw error;
+			throw mapError(
+				error,
+				{ operation: "CreateTable", tableName: config.tableName },
+				error instanceof ResourceInUseException
+					? new ResourceInUseError(`Table ${config.tableName} already exists`)
+					: undefined,
+			);
 		}
 	}
 
@@ -82,10 +87,13 @@ export class TableManager {
 			const command = new DeleteTableCommand({ TableName: tableName });
 			await this.client.send(command);
 		} catch (error) {
-			if (error instanceof ResourceNotFoundException) {
-				throw new ResourceNotFoundError(`Table ${tableName} does not exist`);
-			}
-			throw error;
+			throw mapError(
+				error,
+				{ operation: "DeleteTable", tableName },
+				error instanceof ResourceNotFoundException
+					? new ResourceNotFoundError(`Table ${tableName} does not exist`)
+					: undefined,
+			);
 		}
 	}
 
@@ -99,16 +107,18 @@ export class TableManager {
 			if (error instanceof ResourceNotFoundException) {
 				return false;
 			}
-			throw error;
+			throw mapError(error, { operation: "DescribeTable", tableName });
 		}
 	}
 
 	// GSI management methods
 	async addGSI<TSchema extends z.ZodObject<any>>(
-		tableName: string,
+		model: Model<TSchema, any, any, any>,
 		indexName: string,
 		gsiConfig: GSIConfig<TSchema>,
 	): Promise<void> {
+		const config = model.config;
+		const tableName = config.tableName;
 		const updateCommand = new UpdateTableCommand({
 			TableName: tableName,
 			GlobalSecondaryIndexUpdates: [
@@ -131,7 +141,7 @@ export class TableManager {
 						],
 						Projection: this.buildProjection(
 							gsiConfig.projectionType,
-							gsiConfig.projectedAttributes,
+							this.withTypeAttribute(config, gsiConfig.projectedAttributes),
 						),
 						ProvisionedThroughput: {
 							ReadCapacityUnits: gsiConfig.throughput?.read || 1,
@@ -142,7 +152,15 @@ export class TableManager {
 			],
 		});
 
-		await this.client.send(updateCommand);
+		try {
+			await this.client.send(updateCommand);
+		} catch (error) {
+			throw mapError(error, {
+				operation: "UpdateTable",
+				tableName,
+				indexName,
+			});
+		}
 	}
 
 	async removeGSI(tableName: string, indexName: string): Promise<void> {
@@ -157,12 +175,25 @@ export class TableManager {
 			],
 		});
 
-		await this.client.send(updateCommand);
+		try {
+			await this.client.send(updateCommand);
+		} catch (error) {
+			throw mapError(error, {
+				operation: "UpdateTable",
+				tableName,
+				indexName,
+			});
+		}
 	}
 
 	async getGSIStatus(tableName: string): Promise<GSIStatusReport[]> {
 		const describeCommand = new DescribeTableCommand({ TableName: tableName });
-		const response = await this.client.send(describeCommand);
+		let response: DescribeTableCommandOutput;
+		try {
+			response = await this.client.send(describeCommand);
+		} catch (error) {
+			throw mapError(error, { operation: "DescribeTable", tableName });
+		}
 
 		const gsiReports: GSIStatusReport[] = [];
 		const gsis = response.Table?.GlobalSecondaryIndexes;
@@ -274,7 +305,7 @@ export class TableManager {
 				],
 				Projection: this.buildProjection(
 					gsiConfig.projectionType,
-					gsiConfig.projectedAttributes,
+					this.withTypeAttribute(config, gsiConfig.projectedAttributes),
 				),
 				ProvisionedThroughput: {
 					ReadCapacityUnits: gsiConfig.throughput?.read || 1,
@@ -311,12 +342,27 @@ export class TableManager {
 				],
 				Projection: this.buildProjection(
 					lsiConfig.projectionType,
-					lsiConfig.projectedAttributes,
+					this.withTypeAttribute(config, lsiConfig.projectedAttributes),
 				),
 			}),
 		);
 	}
 
+	/**
+	 * INCLUDE indexes of entity models also project the type attribute, so
+	 * queries on them can filter by entity.
+	 */
+	private withTypeAttribute<TSchema extends z.ZodObject<any>>(
+		config: ModelConfig<TSchema>,
+		projectedAttributes?: (string | number | symbol)[],
+	): (string | number | symbol)[] | undefined {
+		const typeAttribute = getTypeAttribute(config);
+		if (!config.entity || projectedAttributes?.includes(typeAttribute)) {
+			return projectedAttributes;
+		}
+		return [...(projectedAttributes ?? []), typeAttribute];
+	}
+
 	private buildProjection(
 		projectionType: "ALL" | "KEYS_ONLY" | "INCLUDE",
 		projectedAttributes?: (string | number | symbol)[],
@@ -338,7 +384,7 @@ export class TableManager {
 		if (zodType instanceof z.ZodNumber) return "N";
 		if (zodType instanceof z.ZodArray) return "B";
 
-		throw new Error(
+		throw new ValidationError(
 			`Unsupported key type: ${zodType.constructor.name}. Keys must be string, number, or binary.`,
 		);
 	}
@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	ThrottlingError,
+	UnprocessedItemsError,
+	ValidationError,
+} from "../../errors/DynamoDBError.js";
+import type { RetryEvent } from "../../types/Model.js";
+import { requestOf, stubFactory, throttled } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const User = factory.defineModel({
+		tableName: "users",
+		hashKey: "id",
+		schema: z.object({ id: z.string(), name: z.string() }),
+	});
+	return { client, User };
+}
+
+const user = (id: string) => ({ id, name: `User ${id}` });
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("getMany", () => {
+	it("retries unprocessed keys and returns items in input order", async () => {
+		const { client, User } = setup();
+		client.batchGet
+			.mockResolvedValueOnce({
+				Responses: { users: [user("3")] },
+				UnprocessedKeys: { users: { Keys: [{ id: "1" }] } },
+			})
+			.mockResolvedValueOnce({ Responses: { users: [user("1")] } });
+
+		const items = await User.getMany([{ id: "1" }, { id: "2" }, { id: "3" }]);
+
+		expect(items).toEqual([user("1"), user("3")]);
+		expect(client.batchGet).toHaveBeenCalledTimes(2);
+		expect(requestOf(client.batchGet, 1).RequestItems.users.Keys).toEqual([
+			{ id: "1" },
+		]);
+	});
+
+	it("aligns results to keys and fetches repeated keys once", async () => {
+		const { client, User } = setup();
+		client.batchGet.mockResolvedValue({ Responses: { users: [user("1")] } });
+
+		const items = await User.getMany([{ id: "1" }, { id: "2" }, { id: "1" }], {
+			alignToKeys: true,
+		});
+
+		expect(items).toEqual([user("1"), null, user("1")]);
+		expect(requestOf(client.batchGet).RequestItems.users.Keys).toEqual([
+			{ id: "1" },
+			{ id: "2" },
+		]);
+	});
+
+	it("splits keys into requests of 100", async () => {
+		const { client, User } = setup();
+		client.batchGet.mockResolvedValue({ Responses: { users: [] } });
+
+		await User.getMany(
+			Array.from({ length: 250 }, (_, i) => ({ id: String(i) })),
+		);
+
+		expect(
+			client.batchGet.mock.calls.map(
+				([request]) => request.RequestItems.users.Keys.length,
+			),
+		).toEqual([100, 100, 50]);
+	});
+
+	it("throws UnprocessedItemsError once the retry policy is exhausted", async () => {
+		const { client, User } = setup();
+		const onRetry = vi.fn<(event: RetryEvent) => void>();
+		client.batchGet.mockResolvedValue({
+			Responses: { users: [] },
+			UnprocessedKeys: { users: { Keys: [{ id: "1" }] } },
+		});
+
+		await expect(
+			User.getMany([{ id: "1" }], { retry: { maxRetries: 2, onRetry } }),
+		).rejects.toThrow(UnprocessedItemsError);
+		expect(client.batchGet).toHaveBeenCalledTimes(3);
+		expect(onRetry.mock.calls.map(([event]) => event)).toMatchObject([
+			{ operation: "BatchGetItem", tableName: "users", attempt: 1 },
+			{ operation: "BatchGetItem", tableName: "users", attempt: 2 },
+		]);
+	});
+});
+
+describe("putMany and destroyMany", () => {
+	it("retries unprocessed items until all are written", async () => {
+		const { client, User } = setup();
+		client.batchWrite
+			.mockResolvedValueOnce({
+				UnprocessedItems: {
+					users: [{ PutRequest: { Item: user("2") } }],
+				},
+			})
+			.mockResolvedValueOnce({});
+
+		const result = await User.putMany([user("1"), user("2")]);
+
+		expect(result.written).toEqual([user("1"), user("2")]);
+		expect(result.failed).toEqual([]);
+		expect(requestOf(client.batchWrite, 1).RequestItems.users).toEqual([
+			{ PutRequest: { Item: user("2") } },
+		]);
+	});
+
+	it("reports items left unprocessed after maxRetries as failed", async () => {
+		const { client, User } = setup();
+		client.batchWrite.mockResolvedValue({
+			UnprocessedItems: { users: [{ DeleteRequest: { Key: { id: "2" } } }] },
+		});
+
+		const result = await User.destroyMany([{ id: "1" }, { id: "2" }], {
+			retry: { maxRetries: 1 },
+		});
+
+		expect(result.written).toEqual([{ id: "1" }]);
+		expect(result.failed).toHaveLength(1);
+		expect(result.failed[0].item).toEqual({ id: "2" });
+		expect(result.failed[0].error).toBeInstanceOf(UnprocessedItemsError);
+		expect(client.batchWrite).toHaveBeenCalledTimes(2);
+	});
+
+	it("reports chunks whose request keeps failing without losing the others", async () => {
+		const { client, User } = setup();
+		client.batchWrite.mockImplementation(async (request) => {
+			if (request.RequestItems.users[0].PutRequest.Item.id === "0") {
+				throw throttled();
+			}
+			return {};
+		});
+
+		const result = await User.putMany(
+			Array.from({ length: 30 }, (_, i) => user(String(i))),
+			{ retry: { maxRetries: 0 } },
+		);
+
+		expect(result.written).toHaveLength(5);
+		expect(result.failed).toHaveLength(25);
+		expect(result.failed[0].error).toBeInstanceOf(ThrottlingError);
+	});
+
+	it("validates every item and rejects duplicates before writing", async () => {
+		const { client, User } = setup();
+
+		await expect(User.putMany([user("1"), { id: "2" } as any])).rejects.toThrow(
+			ValidationError,
+		);
+		await expect(User.putMany([user("1"), user("1")])).rejects.toThrow(
+			ValidationError,
+		);
+		expect(client.batchWrite).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,280 @@
+import {
+	DynamoDBClient,
+	type UpdateTableCommand,
+} from "@aws-sdk/client-dynamodb";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { TableManager } from "../../TableManager.js";
+import {
+	GSIValidationError,
+	ProjectionError,
+	ValidationError,
+} from "../../errors/DynamoDBError.js";
+import { requestOf, stubFactory } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const User = factory.defineModel({
+		tableName: "app",
+		hashKey: "pk",
+		rangeKey: "sk",
+		entity: "User",
+		schema: z.object({
+			pk: z.string(),
+			sk: z.string(),
+			name: z.string(),
+			email: z.string(),
+		}),
+		globalSecondaryIndexes: {
+			byEmail: { hashKey: "email", projectionType: "KEYS_ONLY" },
+			byName: {
+				hashKey: "name",
+				projectionType: "INCLUDE",
+				projectedAttributes: ["email"],
+			},
+		},
+	});
+	const Order = factory.defineModel({
+		tableName: "app",
+		hashKey: "pk",
+		rangeKey: "sk",
+		entity: "Order",
+		schema: z.object({ pk: z.string(), sk: z.string(), total: z.number() }),
+	});
+	return { factory, client, User, Order };
+}
+
+const user = { pk: "USER#1", sk: "PROFILE", name: "Ada", email: "ada@x.io" };
+const order = { pk: "USER#1", sk: "ORDER#1", total: 20 };
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("entity writes", () => {
+	it("stores the entity and only creates or replaces items of it", async () => {
+		const { client, User } = setup();
+		client.put.mockResolvedValue({});
+
+		await User.put(user);
+
+		expect(requestOf(client.put)).toMatchObject({
+			Item: { ...user, _type: "User" },
+			ConditionExpression:
+				"(attribute_not_exists(#__entity_key) OR #__entity = :__entity)",
+			ExpressionAttributeNames: { "#__entity_key": "pk", "#__entity": "_type" },
+			ExpressionAttributeValues: { ":__entity": "User" },
+		});
+	});
+
+	it("only updates and deletes items of the entity", async () => {
+		const { client, User } = setup();
+		client.update.mockResolvedValue({ Attributes: { ...user, _type: "User" } });
+		client.delete.mockResolvedValue({});
+
+		const updated = await User.update(
+			{ pk: "USER#1", sk: "PROFILE" },
+			{ name: "Ada" },
+		);
+		await User.destroy({ pk: "USER#1", sk: "PROFILE" });
+
+		expect(updated).toEqual(user);
+		expect(requestOf(client.update).ConditionExpression).toBe(
+			"(attribute_exists(#pk)) AND (#__entity = :__entity)",
+		);
+		// Deleting a missing item stays a no-op
+		expect(requestOf(client.delete).ConditionExpression).toBe(
+			"(attribute_not_exists(#__entity_key) OR #__entity = :__entity)",
+		);
+	});
+});
+
+describe("entity reads", () => {
+	it("does not return items of another entity", async () => {
+		const { client, User } = setup();
+		client.get.mockResolvedValue({ Item: { ...order, _type: "Order" } });
+		client.batchGet.mockResolvedValue({
+			Responses: {
+				app: [
+					{ ...order, _type: "Order" },
+					{ ...user, _type: "User" },
+				],
+			},
+		});
+
+		expect(await User.get({ pk: "USER#1", sk: "ORDER#1" })).toBeNull();
+		expect(
+			await User.getMany([
+				{ pk: "USER#1", sk: "ORDER#1" },
+				{ pk: "USER#1", sk: "PROFILE" },
+			]),
+		).toEqual([user]);
+	});
+
+	it("filters queries and scans on the entity", async () => {
+		const { client, User } = setup();
+		client.query.mockResolvedValue({ Items: [{ ...user, _type: "User" }] });
+		client.scan.mockResolvedValue({ Items: [] });
+
+		expect(await User.query({ pk: "USER#1" }).exec()).toEqual([user]);
+		await User.scan().filter("name").eq("Ada").exec();
+
+		expect(requestOf(client.query)).toMatchObject({
+			FilterExpression: "(#__entity = :__entity)",
+			ExpressionAttributeValues: { ":pk": "USER#1", ":__entity": "User" },
+		});
+		expect(requestOf(client.scan).FilterExpression).toBe(
+			"(#name = :name) AND (#__entity = :__entity)",
+		);
+	});
+
+	it("rejects KEYS_ONLY index reads that cannot filter on the entity", async () => {
+		const { client, User } = setup();
+
+		await expect(
+			User.query({ email: "ada@x.io" }).usingIndex("byEmail").exec(),
+		).rejects.toThrow(ProjectionError);
+		await expect(User.scan().usingIndex("byEmail").exec()).rejects.toThrow(
+			ProjectionError,
+		);
+		expect(client.query).not.toHaveBeenCalled();
+		expect(client.scan).not.toHaveBeenCalled();
+	});
+
+	it("filters reads of INCLUDE indexes, which project the type attribute", async () => {
+		const { client, User } = setup();
+		client.query.mockResolvedValue({
+			Items: [{ pk: "USER#1", sk: "PROFILE", name: "Ada", email: "ada@x.io" }],
+		});
+
+		const items = await User.query({ name: "Ada" }).usingIndex("byName").exec();
+
+		expect(items).toEqual([user]);
+		expect(requestOf(client.query)).toMatchObject({
+			IndexName: "byName",
+			FilterExpression: "(#__entity = :__entity)",
+		});
+	});
+
+	it("hydrates KEYS_ONLY index reads and skips other entities", async () => {
+		const { client, User } = setup();
+		client.query.mockResolvedValue({
+			Items: [
+				{ pk: "USER#1", sk: "PROFILE", email: "ada@x.io" },
+				{ pk: "USER#1", sk: "ORDER#1", email: "ada@x.io" },
+			],
+		});
+		client.batchGet.mockResolvedValue({
+			Responses: {
+				app: [
+					{ ...user, _type: "User" },
+					{ ...order, _type: "Order" },
+				],
+			},
+		});
+
+		const items = await User.query({ email: "ada@x.io" })
+			.usingIndex("byEmail")
+			.hydrate()
+			.exec();
+
+		expect(items).toEqual([user]);
+		expect(requestOf(client.query)).toMatchObject({ IndexName: "byEmail" });
+		expect(requestOf(client.query).FilterExpression).toBeUndefined();
+	});
+
+	it("rejects counts of KEYS_ONLY index reads, which cannot be hydrated", async () => {
+		const { client, User } = setup();
+
+		await expect(
+			User.query({ email: "ada@x.io" }).usingIndex("byEmail").hydrate().count(),
+		).rejects.toThrow(GSIValidationError);
+		await expect(
+			User.scan().usingIndex("byEmail").hydrate().count(),
+		).rejects.toThrow(GSIValidationError);
+		expect(client.query).not.toHaveBeenCalled();
+		expect(client.scan).not.toHaveBeenCalled();
+	});
+});
+
+describe("table", () => {
+	it("reads every entity of a partition, each parsed by its model", async () => {
+		const { factory, client, User, Order } = setup();
+		client.query.mockResolvedValue({
+			Items: [
+				{ ...order, _type: "Order" },
+				{ ...user, _type: "User" },
+			],
+		});
+
+		const rows = await factory
+			.table([User, Order])
+			.query({ pk: "USER#1" })
+			.exec();
+
+		expect(rows).toEqual([
+			{ entity: "Order", item: order },
+			{ entity: "User", item: user },
+		]);
+		expect(requestOf(client.query)).toMatchObject({
+			FilterExpression: "(#__entity IN (:__entity_0, :__entity_1))",
+			ExpressionAttributeValues: {
+				":__entity_0": "User",
+				":__entity_1": "Order",
+			},
+		});
+	});
+
+	it("cannot read KEYS_ONLY indexes", async () => {
+		const { factory, User, Order } = setup();
+
+		await expect(
+			factory.table([User, Order]).scan().usingIndex("byEmail").exec(),
+		).rejects.toThrow(ProjectionError);
+	});
+
+	it("rejects models that do not share one table", () => {
+		const { factory, User } = setup();
+		const Other = factory.defineModel({
+			tableName: "other",
+			hashKey: "pk",
+			rangeKey: "sk",
+			entity: "Other",
+			schema: z.object({ pk: z.string(), sk: z.string() }),
+		});
+
+		expect(() => factory.table([User, User])).toThrow(ValidationError);
+		expect(() => factory.table([User, Other])).toThrow(ValidationError);
+	});
+});
+
+describe("table manager", () => {
+	it("adds the type attribute to INCLUDE indexes created with addGSI", async () => {
+		const { User } = setup();
+		const dynamoClient = new DynamoDBClient({ region: "local" });
+		const send = vi.spyOn(dynamoClient, "send").mockResolvedValue({} as never);
+		const manager = await TableManager.initialize(dynamoClient);
+
+		await manager.addGSI(User, "byName", {
+			hashKey: "name",
+			projectionType: "INCLUDE",
+			projectedAttributes: ["email"],
+		});
+
+		const command = send.mock.calls[0][0] as UpdateTableCommand;
+		expect(command.input).toMatchObject({
+			TableName: "app",
+			GlobalSecondaryIndexUpdates: [
+				{
+					Create: {
+						IndexName: "byName",
+						Projection: {
+							ProjectionType: "INCLUDE",
+							NonKeyAttributes: ["email", "_type"],
+						},
+					},
+				},
+			],
+		});
+	});
+});
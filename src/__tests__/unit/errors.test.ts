@@ -0,0 +1,148 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	AccessDeniedError,
+	ConditionalCheckFailedError,
+	type DynamoDBError,
+	ItemTooLargeError,
+	ResourceInUseError,
+	ResourceNotFoundError,
+	ServiceError,
+	ThrottlingError,
+	TransactionCanceledError,
+	ValidationError,
+} from "../../errors/DynamoDBError.js";
+import { mapError } from "../../errors/mapError.js";
+import { stubFactory } from "./stubClient.js";
+
+/**
+ * An error shaped like the AWS SDK's service exceptions.
+ */
+function serviceException(
+	name: string,
+	message = `${name} message`,
+	fault: "client" | "server" = "client",
+): Error {
+	return Object.assign(new Error(message), {
+		name,
+		$fault: fault,
+		$metadata: { requestId: `req-${name}` },
+	});
+}
+
+const cases: [string, new (...args: any[]) => DynamoDBError, string?][] = [
+	["ThrottlingException", ThrottlingError],
+	["ProvisionedThroughputExceededException", ThrottlingError],
+	["RequestLimitExceeded", ThrottlingError],
+	["AccessDeniedException", AccessDeniedError],
+	["UnrecognizedClientException", AccessDeniedError],
+	["MissingAuthenticationTokenException", AccessDeniedError],
+	["ConditionalCheckFailedException", ConditionalCheckFailedError],
+	["TransactionCanceledException", TransactionCanceledError],
+	[
+		"ValidationException",
+		ValidationError,
+		"One or more parameter values were invalid",
+	],
+	[
+		"ValidationException",
+		ItemTooLargeError,
+		"Item size has exceeded the maximum allowed size",
+	],
+	["ResourceNotFoundException", ResourceNotFoundError],
+	["ResourceInUseException", ResourceInUseError],
+	["InternalServerError", ServiceError],
+];
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("mapError", () => {
+	it.each(cases)("maps %s to %O", (name, ErrorClass, message) => {
+		const exception = serviceException(name, message);
+
+		const error = mapError(exception, {
+			operation: "Query",
+			tableName: "users",
+			indexName: "byEmail",
+		});
+
+		expect(error).toBeInstanceOf(ErrorClass);
+		expect(error).toMatchObject({
+			operation: "Query",
+			tableName: "users",
+			indexName: "byEmail",
+			requestId: `req-${name}`,
+			cause: exception,
+		});
+	});
+
+	it("keeps the name and status of unknown service errors", () => {
+		const error = mapError(
+			Object.assign(serviceException("InternalServerError", "boom", "server"), {
+				$metadata: { httpStatusCode: 500 },
+			}),
+			{ operation: "GetItem" },
+		);
+
+		expect(error).toMatchObject({
+			code: "InternalServerError",
+			statusCode: 500,
+			message: "boom",
+		});
+	});
+
+	it("only fills in missing context on library errors", () => {
+		const original = new ValidationError("bad key");
+		original.operation = "PutItem";
+
+		const error = mapError(original, {
+			operation: "Query",
+			tableName: "users",
+		});
+
+		expect(error).toBe(original);
+		expect(error).toMatchObject({ operation: "PutItem", tableName: "users" });
+	});
+
+	it("returns errors that are not service exceptions unchanged", () => {
+		const original = new TypeError("not a DynamoDB failure");
+
+		expect(mapError(original, { operation: "Query" })).toBe(original);
+	});
+});
+
+describe("model operations", () => {
+	it("rethrow SDK failures as DynamoDBErrors with their request context", async () => {
+		const { factory, client } = stubFactory();
+		const User = factory.defineModel({
+			tableName: "users",
+			hashKey: "id",
+			schema: z.object({ id: z.string() }),
+		});
+		const exception = new ConditionalCheckFailedException({
+			message: "The conditional request failed",
+			$metadata: { requestId: "req-1" },
+		});
+		client.delete.mockRejectedValue(exception);
+		client.get.mockRejectedValue(serviceException("ResourceNotFoundException"));
+
+		await expect(
+			User.destroy(
+				{ id: "user-1" },
+				{ condition: (c) => c.field("id").exists() },
+			),
+		).rejects.toMatchObject({
+			name: "ConditionalCheckFailedError",
+			operation: "DeleteItem",
+			tableName: "users",
+			requestId: "req-1",
+			cause: exception,
+		});
+		await expect(User.get({ id: "user-1" })).rejects.toBeInstanceOf(
+			ResourceNotFoundError,
+		);
+	});
+});
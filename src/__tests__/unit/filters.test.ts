@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { ref } from "../../query/AttributeRef.js";
+import { requestOf, stubFactory } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const Post = factory.defineModel({
+		tableName: "posts",
+		hashKey: "authorId",
+		rangeKey: "postId",
+		schema: z.object({
+			authorId: z.string(),
+			postId: z.string(),
+			status: z.string(),
+			views: z.number(),
+			archived: z.boolean(),
+			tags: z.array(z.string()),
+			publishedAt: z.number(),
+			updatedAt: z.number(),
+		}),
+	});
+	client.query.mockResolvedValue({ Items: [] });
+	client.scan.mockResolvedValue({ Items: [] });
+	return { client, Post };
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("grouped filters", () => {
+	it("ORs the conditions of filterAny and ANDs it with other filters", async () => {
+		const { client, Post } = setup();
+
+		await Post.scan()
+			.filter("status")
+			.eq("draft")
+			.filterAny((f) => [
+				f("status").eq("open"),
+				f.all([f("views").gt(10), f("status").eq("closed")]),
+			])
+			.exec();
+
+		const request = requestOf(client.scan);
+		expect(request.FilterExpression).toBe(
+			"(#status = :status) AND ((#status = :status_0) OR ((#views > :views) AND (#status = :status_1)))",
+		);
+		expect(request.ExpressionAttributeValues).toEqual({
+			":status": "draft",
+			":status_0": "open",
+			":views": 10,
+			":status_1": "closed",
+		});
+	});
+
+	it("negates a condition, or several ANDed conditions, with not", async () => {
+		const { client, Post } = setup();
+
+		await Post.query({ authorId: "author-1" })
+			.not((f) => f("archived").eq(true))
+			.not((f) => [f("status").eq("open"), f("views").lt(5)])
+			.exec();
+
+		const request = requestOf(client.query);
+		expect(request.FilterExpression).toBe(
+			"(NOT (#archived = :archived)) AND (NOT ((#status = :status) AND (#views < :views)))",
+		);
+		expect(request.ExpressionAttributeValues).toEqual({
+			":authorId": "author-1",
+			":archived": true,
+			":status": "open",
+			":views": 5,
+		});
+	});
+
+	it("gives grouped conditions placeholders apart from the key condition", async () => {
+		const { client, Post } = setup();
+
+		await Post.query({ authorId: "author-1" })
+			.filterAny((f) => [f("authorId").eq("author-2"), f("views").eq(0)])
+			.exec();
+
+		const request = requestOf(client.query);
+		expect(request.FilterExpression).toBe(
+			"((#authorId = :authorId) OR (#views = :views))",
+		);
+		expect(request.KeyConditionExpression).toBe("(#authorId = :authorId_0)");
+		expect(request.ExpressionAttributeValues).toEqual({
+			":authorId": "author-2",
+			":authorId_0": "author-1",
+			":views": 0,
+		});
+	});
+});
+
+describe("condition functions", () => {
+	it("compiles size(), isType() and attribute comparisons in filters", async () => {
+		const { client, Post } = setup();
+
+		await Post.scan()
+			.filter("tags")
+			.size()
+			.gt(3)
+			.filter("tags")
+			.isType("L")
+			.filter("updatedAt")
+			.gt(ref("publishedAt"))
+			.exec();
+
+		const request = requestOf(client.scan);
+		expect(request.FilterExpression).toBe(
+			"(size(#tags) > :tags_size) AND (attribute_type(#tags, :tags)) AND (#updatedAt > #publishedAt)",
+		);
+		expect(request.ExpressionAttributeNames).toMatchObject({
+			"#tags": "tags",
+			"#updatedAt": "updatedAt",
+			"#publishedAt": "publishedAt",
+		});
+		expect(request.ExpressionAttributeValues).toEqual({
+			":tags_size": 3,
+			":tags": "L",
+		});
+	});
+
+	it("compares a field to another field in write conditions", async () => {
+		const { client, Post } = setup();
+		client.update.mockResolvedValue({
+			Attributes: {
+				authorId: "author-1",
+				postId: "post-1",
+				status: "published",
+				views: 0,
+				archived: false,
+				tags: ["news"],
+				publishedAt: 1,
+				updatedAt: 2,
+			},
+		});
+
+		await Post.update(
+			{ authorId: "author-1", postId: "post-1" },
+			{ status: "published" },
+			{
+				condition: (c) =>
+					c
+						.field("publishedAt")
+						.lte(ref("updatedAt"))
+						.field("tags")
+						.size()
+						.between(1, 5),
+			},
+		);
+
+		const request = requestOf(client.update);
+		expect(request.ConditionExpression).toBe(
+			"(attribute_exists(#authorId)) AND (#publishedAt <= #updatedAt) AND (size(#tags) BETWEEN :tags_size_min AND :tags_size_max)",
+		);
+		expect(request.ExpressionAttributeValues).toEqual({
+			":status": "published",
+			":tags_size_min": 1,
+			":tags_size_max": 5,
+		});
+	});
+});
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	GSIValidationError,
+	IndexNotFoundError,
+	ValidationError,
+} from "../../errors/DynamoDBError.js";
+import { requestOf, stubFactory } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const Post = factory.defineModel({
+		tableName: "posts",
+		hashKey: "authorId",
+		rangeKey: "postId",
+		schema: z.object({
+			authorId: z.string(),
+			postId: z.string(),
+			status: z.string(),
+			createdAt: z.number(),
+			views: z.number(),
+		}),
+		globalSecondaryIndexes: {
+			byStatus: {
+				hashKey: "status",
+				rangeKey: "createdAt",
+				projectionType: "ALL",
+			},
+		},
+		localSecondaryIndexes: {
+			byViews: { rangeKey: "views", projectionType: "ALL" },
+		},
+	});
+	client.query.mockResolvedValue({ Items: [] });
+	return { client, Post };
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("key conditions", () => {
+	it("adds the range key condition to the key condition expression", async () => {
+		const { client, Post } = setup();
+
+		await Post.query({ authorId: "author-1" })
+			.where("postId")
+			.beginsWith("2024-")
+			.exec();
+
+		expect(requestOf(client.query)).toMatchObject({
+			KeyConditionExpression:
+				"(#authorId = :authorId) AND (begins_with(#postId, :postId))",
+			ExpressionAttributeValues: {
+				":authorId": "author-1",
+				":postId": "2024-",
+			},
+		});
+	});
+
+	it("rejects conditions on anything but the range key", () => {
+		const { client, Post } = setup();
+		const query = Post.query({ authorId: "author-1" });
+
+		// @ts-expect-error views is not a key attribute
+		expect(() => query.where("views")).toThrow(ValidationError);
+		// @ts-expect-error the hash key is already set by the key values
+		expect(() => query.where("authorId")).toThrow(ValidationError);
+		expect(client.query).not.toHaveBeenCalled();
+	});
+
+	it("rejects a second range key condition", () => {
+		const { Post } = setup();
+
+		expect(() =>
+			Post.query({ authorId: "author-1" })
+				.where("postId")
+				.gt("a")
+				.where("postId")
+				.lt("z"),
+		).toThrow(ValidationError);
+		expect(() =>
+			Post.query({ authorId: "author-1", postId: "post-1" })
+				.where("postId")
+				.gt("a"),
+		).toThrow(ValidationError);
+	});
+
+	it("only offers the operators DynamoDB allows on a key", () => {
+		const { Post } = setup();
+		const condition = Post.query({ authorId: "author-1" }).where("postId");
+
+		// @ts-expect-error ne is not a key condition operator
+		expect(() => condition.ne("post-1")).toThrow(TypeError);
+		// @ts-expect-error in is not a key condition operator
+		expect(() => condition.in(["post-1"])).toThrow(TypeError);
+	});
+
+	it("rejects non-key attributes in the key values before sending", async () => {
+		const { client, Post } = setup();
+
+		await expect(
+			Post.query({ authorId: "author-1", views: 3 }).exec(),
+		).rejects.toThrow(ValidationError);
+		await expect(Post.query({ postId: "post-1" }).exec()).rejects.toThrow(
+			ValidationError,
+		);
+		expect(client.query).not.toHaveBeenCalled();
+	});
+});
+
+describe("indexes", () => {
+	it("queries an index with its own key schema", async () => {
+		const { client, Post } = setup();
+
+		await Post.queryIndex("byStatus", { status: "open" })
+			.where("createdAt")
+			.gte(100)
+			.exec();
+
+		expect(requestOf(client.query)).toMatchObject({
+			IndexName: "byStatus",
+			KeyConditionExpression:
+				"(#status = :status) AND (#createdAt >= :createdAt)",
+		});
+	});
+
+	it("rejects unknown indexes", () => {
+		const { Post } = setup();
+
+		expect(() =>
+			Post.query({ authorId: "author-1" }).usingIndex("missing" as any),
+		).toThrow(IndexNotFoundError);
+	});
+
+	it("rejects index keys in the wrong position", async () => {
+		const { client, Post } = setup();
+
+		// The table's hash key is not the hash key of the index
+		expect(() =>
+			Post.query({ authorId: "author-1" }).usingIndex("byStatus"),
+		).toThrow(GSIValidationError);
+		// The index range key is not a key of the table
+		expect(() =>
+			Post.query({ authorId: "author-1" }).where("createdAt" as any),
+		).toThrow(ValidationError);
+		expect(() =>
+			Post.queryIndex("byStatus", { status: "open" }).where("postId" as any),
+		).toThrow(ValidationError);
+		// where() before usingIndex() is checked against the index too
+		await expect(
+			Post.query({ status: "open" })
+				.where("postId" as any)
+				.gt("a")
+				.usingIndex("byStatus")
+				.exec(),
+		).rejects.toThrow(ValidationError);
+		expect(client.query).not.toHaveBeenCalled();
+	});
+
+	it("uses the table hash key with the range key of a local index", async () => {
+		const { client, Post } = setup();
+
+		await Post.query({ authorId: "author-1" })
+			.usingIndex("byViews")
+			.where("views")
+			.gt(10)
+			.consistentRead()
+			.exec();
+
+		expect(requestOf(client.query)).toMatchObject({
+			IndexName: "byViews",
+			ConsistentRead: true,
+			KeyConditionExpression: "(#authorId = :authorId) AND (#views > :views)",
+		});
+	});
+
+	it("rejects consistent reads on a global index", async () => {
+		const { client, Post } = setup();
+
+		await expect(
+			Post.queryIndex("byStatus", { status: "open" }).consistentRead().exec(),
+		).rejects.toThrow(GSIValidationError);
+		expect(client.query).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,339 @@
+import { NumberValue } from "@aws-sdk/lib-dynamodb";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	InvalidCursorError,
+	ValidationError,
+} from "../../errors/DynamoDBError.js";
+import { requestOf, stubFactory } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory({ cursorSecret: "secret" });
+	const Post = factory.defineModel({
+		tableName: "posts",
+		hashKey: "userId",
+		rangeKey: "postedAt",
+		schema: z.object({
+			userId: z.string(),
+			postedAt: z.number(),
+			status: z.string(),
+		}),
+	});
+	return { client, Post };
+}
+
+const post = (postedAt: number, status = "open") => ({
+	userId: "user-1",
+	postedAt,
+	status,
+});
+const key = (postedAt: number) => ({ userId: "user-1", postedAt });
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("page", () => {
+	it("fills a filtered page across requests and resumes after the last item", async () => {
+		const { client, Post } = setup();
+		client.query
+			.mockResolvedValueOnce({
+				Items: [post(1)],
+				Count: 1,
+				ScannedCount: 4,
+				LastEvaluatedKey: key(4),
+			})
+			.mockResolvedValueOnce({
+				Items: [post(5), post(6), post(7)],
+				Count: 3,
+				ScannedCount: 3,
+				LastEvaluatedKey: key(7),
+			});
+
+		const page = await Post.query({ userId: "user-1" })
+			.filter("status")
+			.eq("open")
+			.page(3);
+
+		expect(page.items).toEqual([post(1), post(5), post(6)]);
+		expect(page.count).toBe(3);
+		expect(page.scannedCount).toBe(7);
+		expect(page.lastEvaluatedKey).toEqual(key(6));
+		expect(page.cursor).toEqual(expect.any(String));
+		// Filters may drop items, so no Limit is derived from the page size
+		expect(requestOf(client.query).Limit).toBeUndefined();
+		expect(requestOf(client.query, 1).ExclusiveStartKey).toEqual(key(4));
+	});
+
+	it("requests exactly the missing items without filters", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({
+			Items: [post(1), post(2)],
+			Count: 2,
+			ScannedCount: 2,
+		});
+
+		const page = await Post.query({ userId: "user-1" }).page(5);
+
+		expect(page.items).toHaveLength(2);
+		expect(page.lastEvaluatedKey).toBeUndefined();
+		expect(requestOf(client.query).Limit).toBe(5);
+	});
+
+	it("stops after maxRequests", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({
+			Items: [],
+			Count: 0,
+			ScannedCount: 10,
+			LastEvaluatedKey: key(10),
+		});
+
+		const page = await Post.query({ userId: "user-1" })
+			.filter("status")
+			.eq("open")
+			.page(3, { maxRequests: 2 });
+
+		expect(page.items).toEqual([]);
+		expect(page.lastEvaluatedKey).toEqual(key(10));
+		expect(client.query).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("cursors", () => {
+	it("resumes a query from the cursor of a previous page", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({
+			Items: [post(1)],
+			Count: 1,
+			ScannedCount: 1,
+			LastEvaluatedKey: key(1),
+		});
+
+		const first = await Post.query({ userId: "user-1" }).execWithPagination();
+		await Post.query({ userId: "user-1" })
+			.after(first.cursor as string)
+			.exec();
+
+		expect(requestOf(client.query, 1).ExclusiveStartKey).toEqual({
+			userId: "user-1",
+			postedAt: NumberValue.from("1"),
+		});
+	});
+
+	it("keeps large numeric keys exact", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({ Items: [], Count: 0, ScannedCount: 0 });
+		const query = Post.query({ userId: "user-1" });
+
+		const cursor = query.cursor({
+			userId: "user-1",
+			postedAt: 12345678901234567890n,
+		});
+		await query.after(cursor).exec();
+
+		expect(requestOf(client.query).ExclusiveStartKey.postedAt.toString()).toBe(
+			"12345678901234567890",
+		);
+	});
+
+	it("rejects tampered cursors and cursors of another query", async () => {
+		const { client, Post } = setup();
+		const cursor = Post.query({ userId: "user-1" }).cursor(key(1));
+		const [payload, signature] = cursor.split(".");
+		const tampered = `${Buffer.from(
+			JSON.stringify([
+				["S", "user-1"],
+				["N", "2"],
+			]),
+		).toString("base64url")}.${signature}`;
+
+		await expect(
+			Post.query({ userId: "user-1" }).after(tampered).exec(),
+		).rejects.toThrow(InvalidCursorError);
+		await expect(
+			Post.query({ userId: "user-2" }).after(cursor).exec(),
+		).rejects.toThrow(InvalidCursorError);
+		await expect(
+			Post.query({ userId: "user-1" }).after(payload).exec(),
+		).rejects.toThrow(InvalidCursorError);
+		expect(client.query).not.toHaveBeenCalled();
+	});
+});
+
+describe("connection", () => {
+	it("pages forward and reads one item ahead for hasNextPage", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({
+			Items: [post(1), post(2), post(3)],
+			Count: 3,
+			ScannedCount: 3,
+			LastEvaluatedKey: key(3),
+		});
+
+		const { edges, pageInfo } = await Post.query({
+			userId: "user-1",
+		}).connection({ first: 2 });
+
+		expect(edges.map((edge) => edge.node)).toEqual([post(1), post(2)]);
+		expect(pageInfo).toMatchObject({
+			hasNextPage: true,
+			hasPreviousPage: false,
+			startCursor: edges[0].cursor,
+			endCursor: edges[1].cursor,
+		});
+		expect(requestOf(client.query)).toMatchObject({
+			Limit: 3,
+			ScanIndexForward: true,
+		});
+	});
+
+	it("pages backward before a cursor and returns edges in query order", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({
+			Items: [post(4), post(3)],
+			Count: 2,
+			ScannedCount: 2,
+		});
+		const before = Post.query({ userId: "user-1" }).cursor(key(5));
+
+		const { edges, pageInfo } = await Post.query({
+			userId: "user-1",
+		}).connection({ last: 2, before });
+
+		expect(edges.map((edge) => edge.node)).toEqual([post(3), post(4)]);
+		expect(pageInfo.hasPreviousPage).toBe(false);
+		expect(requestOf(client.query)).toMatchObject({
+			ScanIndexForward: false,
+			ExclusiveStartKey: { userId: "user-1" },
+		});
+		expect(requestOf(client.query).ExclusiveStartKey.postedAt.toString()).toBe(
+			"5",
+		);
+	});
+});
+
+describe("items and count", () => {
+	it("stops fetching pages once max items were yielded", async () => {
+		const { client, Post } = setup();
+		client.query
+			.mockResolvedValueOnce({
+				Items: [post(1), post(2)],
+				LastEvaluatedKey: key(2),
+			})
+			.mockResolvedValueOnce({
+				Items: [post(3), post(4)],
+				LastEvaluatedKey: key(4),
+			});
+
+		const items: unknown[] = [];
+		for await (const item of Post.query({ userId: "user-1" }).items({
+			max: 3,
+		})) {
+			items.push(item);
+		}
+
+		expect(items).toEqual([post(1), post(2), post(3)]);
+		expect(client.query).toHaveBeenCalledTimes(2);
+	});
+
+	it("counts across every page without reading items", async () => {
+		const { client, Post } = setup();
+		client.query
+			.mockResolvedValueOnce({
+				Count: 2,
+				ScannedCount: 5,
+				LastEvaluatedKey: key(5),
+			})
+			.mockResolvedValueOnce({ Count: 1, ScannedCount: 2 });
+
+		const result = await Post.query({ userId: "user-1" }).count();
+
+		expect(result).toMatchObject({ count: 3, scannedCount: 7 });
+		expect(requestOf(client.query).Select).toBe("COUNT");
+	});
+});
+
+describe("stream prefetch", () => {
+	/**
+	 * Endless pages; every pending request rejects once it is aborted, like
+	 * the SDK does.
+	 */
+	function endlessPages(client: ReturnType<typeof setup>["client"]) {
+		const signals: AbortSignal[] = [];
+		client.query.mockImplementation((request, { abortSignal }) => {
+			signals.push(abortSignal);
+			const postedAt = (request.ExclusiveStartKey?.postedAt ?? 0) + 1;
+			return new Promise((resolve, reject) => {
+				abortSignal.addEventListener("abort", () =>
+					reject(new Error("Request aborted")),
+				);
+				setTimeout(
+					() =>
+						resolve({
+							Items: [post(postedAt)],
+							LastEvaluatedKey: key(postedAt),
+						}),
+					1,
+				);
+			});
+		});
+		return signals;
+	}
+
+	it("requests pages ahead and stops once the consumer breaks out", async () => {
+		const { client, Post } = setup();
+		const signals = endlessPages(client);
+		const unhandled = vi.fn();
+		process.on("unhandledRejection", unhandled);
+
+		try {
+			const pages: unknown[][] = [];
+			for await (const items of Post.query({ userId: "user-1" }).stream({
+				prefetch: 2,
+			})) {
+				pages.push(items);
+				if (pages.length === 2) {
+					break;
+				}
+			}
+			const requests = client.query.mock.calls.length;
+			await new Promise((resolve) => setTimeout(resolve, 20));
+
+			expect(pages).toEqual([[post(1)], [post(2)]]);
+			expect(requests).toBeLessThanOrEqual(4);
+			expect(client.query).toHaveBeenCalledTimes(requests);
+			expect(signals.every((signal) => signal.aborted)).toBe(true);
+			expect(unhandled).not.toHaveBeenCalled();
+		} finally {
+			process.off("unhandledRejection", unhandled);
+		}
+	});
+
+	it("rejects with the error of a page fetched ahead once it is reached", async () => {
+		const { client, Post } = setup();
+		client.query
+			.mockResolvedValueOnce({ Items: [post(1)], LastEvaluatedKey: key(1) })
+			.mockRejectedValueOnce(new Error("page 2 failed"));
+
+		const pages: unknown[][] = [];
+		const consume = async () => {
+			for await (const items of Post.query({ userId: "user-1" }).stream({
+				prefetch: 1,
+			})) {
+				pages.push(items);
+			}
+		};
+
+		await expect(consume()).rejects.toThrow("page 2 failed");
+		expect(pages).toEqual([[post(1)]]);
+	});
+
+	it("rejects an invalid prefetch", async () => {
+		const { Post } = setup();
+
+		await expect(
+			Post.query({ userId: "user-1" }).stream({ prefetch: -1 }).next(),
+		).rejects.toThrow(ValidationError);
+	});
+});
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { ValidationError } from "../../errors/DynamoDBError.js";
+import type { ParallelScanCheckpoint } from "../../types/Scan.js";
+import { requestOf, stubFactory } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const Event = factory.defineModel({
+		tableName: "events",
+		hashKey: "id",
+		schema: z.object({ id: z.string() }),
+	});
+	return { client, Event };
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("ParallelScan", () => {
+	it("scans every segment to its end and merges the items", async () => {
+		const { client, Event } = setup();
+		client.scan.mockImplementation(async (request) => {
+			const segment = request.Segment;
+			if (!request.ExclusiveStartKey) {
+				return {
+					Items: [{ id: `${segment}-a` }],
+					LastEvaluatedKey: { id: `${segment}-a` },
+				};
+			}
+			return { Items: [{ id: `${segment}-b` }] };
+		});
+
+		const items = await Event.scan().parallel(3, { concurrency: 2 }).exec();
+
+		expect(items.map((item) => item.id).sort()).toEqual([
+			"0-a",
+			"0-b",
+			"1-a",
+			"1-b",
+			"2-a",
+			"2-b",
+		]);
+		expect(client.scan).toHaveBeenCalledTimes(6);
+		expect(requestOf(client.scan)).toMatchObject({
+			TableName: "events",
+			Segment: 0,
+			TotalSegments: 3,
+		});
+	});
+
+	it("stops every worker on the first failing fetch", async () => {
+		const { client, Event } = setup();
+		const failure = new Error("segment 1 failed");
+		client.scan.mockImplementation(async (request) => {
+			if (request.Segment === 1) {
+				throw failure;
+			}
+			return { Items: [{ id: String(request.Segment) }] };
+		});
+		const pages: number[] = [];
+		const scan = Event.scan().parallel(4, { concurrency: 1 });
+
+		await expect(
+			scan.forEachPage((page) => {
+				pages.push(page.segment);
+			}),
+		).rejects.toThrow("segment 1 failed");
+
+		expect(pages).toEqual([0]);
+		expect(client.scan).toHaveBeenCalledTimes(2);
+		expect(scan.checkpoint().segments.map((s) => s.done)).toEqual([
+			true,
+			false,
+			false,
+			false,
+		]);
+	});
+
+	it("stops every worker on the first failing callback", async () => {
+		const { client, Event } = setup();
+		client.scan.mockImplementation(async (request) => ({
+			Items: [{ id: String(request.Segment) }],
+			LastEvaluatedKey: { id: String(request.Segment) },
+		}));
+		const scan = Event.scan().parallel(2);
+
+		await expect(
+			scan.forEachPage((page) => {
+				if (page.segment === 0) {
+					throw new Error("export failed");
+				}
+			}),
+		).rejects.toThrow("export failed");
+
+		// The page segment 1 had in flight is dropped, not handed on
+		expect(client.scan).toHaveBeenCalledTimes(2);
+		expect(scan.checkpoint().segments).toEqual([
+			{ segment: 0, done: false },
+			{ segment: 1, done: false },
+		]);
+	});
+
+	it("resumes only unfinished segments from their checkpoint", async () => {
+		const { client, Event } = setup();
+		client.scan.mockResolvedValue({ Items: [] });
+		const resumeFrom: ParallelScanCheckpoint = {
+			totalSegments: 2,
+			segments: [
+				{ segment: 0, done: true },
+				{ segment: 1, lastEvaluatedKey: { id: "x" }, done: false },
+			],
+		};
+
+		await Event.scan().parallel(2, { resumeFrom }).exec();
+
+		expect(client.scan).toHaveBeenCalledTimes(1);
+		expect(requestOf(client.scan)).toMatchObject({
+			Segment: 1,
+			ExclusiveStartKey: { id: "x" },
+		});
+	});
+
+	it("rejects invalid segment counts, concurrency and checkpoints", () => {
+		const { Event } = setup();
+
+		expect(() => Event.scan().parallel(0)).toThrow(ValidationError);
+		expect(() => Event.scan().parallel(1.5)).toThrow(ValidationError);
+		expect(() => Event.scan().parallel(4, { concurrency: 0 })).toThrow(
+			ValidationError,
+		);
+		expect(() =>
+			Event.scan().parallel(4, {
+				resumeFrom: { totalSegments: 2, segments: [] },
+			}),
+		).toThrow(ValidationError);
+		expect(() => Event.scan().segments(2, 2)).toThrow(ValidationError);
+	});
+});
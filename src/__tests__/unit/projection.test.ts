@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	ProjectionError,
+	ValidationError,
+} from "../../errors/DynamoDBError.js";
+import { requestOf, stubFactory } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const Post = factory.defineModel({
+		tableName: "posts",
+		hashKey: "authorId",
+		rangeKey: "postId",
+		schema: z.object({
+			authorId: z.string(),
+			postId: z.string(),
+			status: z.string(),
+			title: z.string(),
+			body: z.string(),
+		}),
+		globalSecondaryIndexes: {
+			byStatus: { hashKey: "status", projectionType: "KEYS_ONLY" },
+			byStatusWithTitle: {
+				hashKey: "status",
+				projectionType: "INCLUDE",
+				projectedAttributes: ["title"],
+			},
+		},
+	});
+	return { client, Post };
+}
+
+const post = {
+	authorId: "author-1",
+	postId: "post-1",
+	status: "open",
+	title: "Hello",
+	body: "World",
+};
+const keys = { authorId: "author-1", postId: "post-1", status: "open" };
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("index projections", () => {
+	it("validates index items against the projected attributes only", async () => {
+		const { client, Post } = setup();
+		client.query
+			.mockResolvedValueOnce({ Items: [keys] })
+			.mockResolvedValueOnce({ Items: [{ ...keys, title: "Hello" }] });
+
+		const keysOnly = await Post.queryIndex("byStatus", {
+			status: "open",
+		}).exec();
+		const included = await Post.queryIndex("byStatusWithTitle", {
+			status: "open",
+		}).exec();
+
+		expect(keysOnly).toEqual([keys]);
+		expect(included).toEqual([{ ...keys, title: "Hello" }]);
+	});
+
+	it("rejects filters on attributes the index does not project", async () => {
+		const { client, Post } = setup();
+
+		expect(() =>
+			Post.query({ status: "open" })
+				.filter("title")
+				.eq("Hello")
+				.usingIndex("byStatus"),
+		).toThrow(ProjectionError);
+		await expect(
+			Post.queryIndex("byStatusWithTitle", { status: "open" })
+				.filter("body")
+				.eq("World")
+				.exec(),
+		).rejects.toThrow(ProjectionError);
+		expect(client.query).not.toHaveBeenCalled();
+	});
+
+	it("loads the table items with hydrate()", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({ Items: [keys] });
+		client.batchGet.mockResolvedValue({ Responses: { posts: [post] } });
+
+		const items = await Post.queryIndex("byStatus", { status: "open" })
+			.hydrate()
+			.exec();
+
+		expect(items).toEqual([post]);
+		expect(requestOf(client.batchGet).RequestItems.posts.Keys).toEqual([
+			{ authorId: "author-1", postId: "post-1" },
+		]);
+	});
+});
+
+describe("attribute selection", () => {
+	it("reads only the selected attributes on get and getMany", async () => {
+		const { client, Post } = setup();
+		client.get.mockResolvedValue({ Item: { title: "Hello" } });
+		client.batchGet.mockResolvedValue({
+			Responses: {
+				posts: [{ authorId: "author-1", postId: "post-1", title: "Hello" }],
+			},
+		});
+
+		const item = await Post.get(
+			{ authorId: "author-1", postId: "post-1" },
+			{ attributes: ["title"] },
+		);
+		const items = await Post.getMany(
+			[{ authorId: "author-1", postId: "post-1" }],
+			{ attributes: ["title"] },
+		);
+
+		expect(item).toEqual({ title: "Hello" });
+		expect(items).toEqual([{ title: "Hello" }]);
+		expect(requestOf(client.get)).toMatchObject({
+			ProjectionExpression: "#title",
+			ExpressionAttributeNames: { "#title": "title" },
+		});
+		expect(
+			requestOf(client.batchGet).RequestItems.posts.ProjectionExpression,
+		).toBe("#title, #authorId, #postId");
+	});
+
+	it("selects attributes on queries and reads the keys along", async () => {
+		const { client, Post } = setup();
+		client.query.mockResolvedValue({ Items: [{ ...keys, title: "Hello" }] });
+
+		const items = await Post.query({ authorId: "author-1" })
+			.select(["title"])
+			.exec();
+
+		expect(items).toEqual([{ title: "Hello" }]);
+		expect(requestOf(client.query)).toMatchObject({
+			ProjectionExpression: "#title, #authorId, #postId",
+			ExpressionAttributeNames: {
+				"#title": "title",
+				"#authorId": "authorId",
+				"#postId": "postId",
+			},
+		});
+	});
+
+	it("validates selected attributes against the picked schema", async () => {
+		const { client, Post } = setup();
+		client.scan.mockResolvedValue({
+			Items: [{ authorId: "author-1", postId: "post-1" }],
+		});
+
+		await expect(Post.scan().select(["title"]).exec()).rejects.toThrow(
+			ValidationError,
+		);
+		expect(() => Post.scan().select(["unknown" as any])).toThrow(
+			ValidationError,
+		);
+	});
+
+	it("rejects selecting attributes the index does not project", () => {
+		const { Post } = setup();
+
+		expect(() =>
+			Post.queryIndex("byStatusWithTitle", { status: "open" }).select([
+				"body" as any,
+			]),
+		).toThrow(ProjectionError);
+		expect(() =>
+			Post.scan()
+				.usingIndex("byStatus")
+				.select(["title" as any]),
+		).toThrow(ProjectionError);
+	});
+});
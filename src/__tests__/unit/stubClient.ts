@@ -0,0 +1,61 @@
+import {
+	DynamoDBClient,
+	ProvisionedThroughputExceededException,
+} from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocument } from "@aws-sdk/lib-dynamodb";
+import { type Mock, vi } from "vitest";
+import { ModelFactory } from "../../ModelFactory.js";
+import type { ModelFactoryOptions } from "../../types/Model.js";
+
+// DocumentClient methods the library calls
+const OPERATIONS = [
+	"get",
+	"put",
+	"update",
+	"delete",
+	"query",
+	"scan",
+	"batchGet",
+	"batchWrite",
+	"transactGet",
+	"transactWrite",
+] as const;
+
+export type StubClient = Record<(typeof OPERATIONS)[number], Mock>;
+
+/**
+ * Creates a `ModelFactory` whose DocumentClient is a set of mocks, so tests
+ * can inspect the requests sent and script the responses. Retries wait no
+ * time unless `options.retry` says otherwise.
+ */
+export function stubFactory(options: ModelFactoryOptions = {}): {
+	factory: ModelFactory;
+	client: StubClient;
+} {
+	const client = Object.fromEntries(
+		OPERATIONS.map((operation) => [operation, vi.fn()]),
+	) as StubClient;
+	vi.spyOn(DynamoDBDocument, "from").mockReturnValue(
+		client as unknown as DynamoDBDocument,
+	);
+
+	const factory = new ModelFactory(new DynamoDBClient({ region: "local" }), {
+		...options,
+		retry: { baseDelayMs: 0, ...options.retry },
+	});
+	return { factory, client };
+}
+
+export function throttled(): ProvisionedThroughputExceededException {
+	return new ProvisionedThroughputExceededException({
+		message: "Throughput exceeded",
+		$metadata: {},
+	});
+}
+
+/**
+ * The request passed to the `n`-th call of a stubbed operation.
+ */
+export function requestOf(mock: Mock, n = 0): any {
+	return mock.mock.calls[n][0];
+}
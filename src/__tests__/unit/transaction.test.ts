@@ -0,0 +1,212 @@
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	ConditionalCheckFailedError,
+	ThrottlingError,
+	TransactionCanceledError,
+	ValidationError,
+	VersionConflictError,
+} from "../../errors/DynamoDBError.js";
+import { $add } from "../../update/UpdateOperators.js";
+import { requestOf, stubFactory, throttled } from "./stubClient.js";
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const User = factory.defineModel({
+		tableName: "users",
+		hashKey: "id",
+		schema: z.object({ id: z.string(), orders: z.number() }),
+	});
+	const Order = factory.defineModel({
+		tableName: "orders",
+		hashKey: "id",
+		schema: z.object({
+			id: z.string(),
+			total: z.number(),
+			version: z.number().optional(),
+		}),
+		version: { attribute: "version" },
+	});
+	return { factory, client, User, Order };
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("TransactionBuilder", () => {
+	it("sends all operations in one TransactWriteItems call", async () => {
+		const { factory, client, User, Order } = setup();
+		client.transactWrite.mockResolvedValue({});
+
+		await factory
+			.transaction()
+			.create(Order, { id: "order-1", total: 20 })
+			.update(User, { id: "user-1" }, { orders: $add(1) })
+			.conditionCheck(User, { id: "user-2" }, (c) => c.field("orders").gt(0))
+			.clientRequestToken("checkout-1")
+			.exec();
+
+		const request = requestOf(client.transactWrite);
+		expect(request.ClientRequestToken).toBe("checkout-1");
+		expect(request.TransactItems).toHaveLength(3);
+		expect(request.TransactItems[0].Put).toMatchObject({
+			TableName: "orders",
+			Item: { id: "order-1", total: 20, version: 1 },
+		});
+		expect(request.TransactItems[1].Update).toMatchObject({
+			TableName: "users",
+			Key: { id: "user-1" },
+			UpdateExpression: "ADD #orders :orders",
+		});
+		expect(request.TransactItems[2].ConditionCheck).toMatchObject({
+			TableName: "users",
+			Key: { id: "user-2" },
+			ConditionExpression: "(#orders > :orders)",
+		});
+	});
+
+	it("rejects empty, oversized and duplicate transactions", async () => {
+		const { factory, User } = setup();
+
+		await expect(factory.transaction().exec()).rejects.toThrow(ValidationError);
+
+		const tx = factory.transaction().destroy(User, { id: "user-1" });
+		expect(() => tx.destroy(User, { id: "user-1" })).toThrow(ValidationError);
+
+		const large = factory.transaction();
+		for (let i = 0; i < 100; i++) {
+			large.destroy(User, { id: `user-${i}` });
+		}
+		expect(() => large.destroy(User, { id: "user-100" })).toThrow(
+			ValidationError,
+		);
+	});
+
+	it("detects duplicates whatever the order of the key properties", () => {
+		const { factory } = setup();
+		const Line = factory.defineModel({
+			tableName: "lines",
+			hashKey: "orderId",
+			rangeKey: "lineId",
+			schema: z.object({ orderId: z.string(), lineId: z.string() }),
+		});
+
+		const tx = factory
+			.transaction()
+			.destroy(Line, { orderId: "order-1", lineId: "line-1" })
+			.destroy(Line, { orderId: "order-1", lineId: "line-2" });
+		expect(() =>
+			tx.destroy(Line, { lineId: "line-1", orderId: "order-1" }),
+		).toThrow(ValidationError);
+	});
+
+	it("maps cancellation reasons through the owning models", async () => {
+		const { factory, client, User, Order } = setup();
+		client.transactWrite.mockRejectedValue(
+			new TransactionCanceledException({
+				message: "Transaction cancelled",
+				$metadata: {},
+				CancellationReasons: [
+					{ Code: "None" },
+					{
+						Code: "ConditionalCheckFailed",
+						Item: marshall({ id: "order-1", total: 20, version: 7 }),
+					},
+					{ Code: "ConditionalCheckFailed" },
+				],
+			}),
+		);
+
+		const error = await factory
+			.transaction()
+			.put(User, { id: "user-1", orders: 1 })
+			.destroy(Order, { id: "order-1" }, { expectedVersion: 6 })
+			.conditionCheck(User, { id: "user-2" }, (c) => c.field("orders").gt(0))
+			.exec()
+			.catch((error) => error);
+
+		expect(error).toBeInstanceOf(TransactionCanceledError);
+		expect(error.reasons.map((r: any) => [r.index, r.operation])).toEqual([
+			[1, "destroy"],
+			[2, "conditionCheck"],
+		]);
+		expect(error.reasons[0].error).toBeInstanceOf(VersionConflictError);
+		expect(error.reasons[0].error.actualVersion).toBe(7);
+		expect(error.reasons[1].error).toBeInstanceOf(ConditionalCheckFailedError);
+	});
+
+	it("retries throttled transactions with the same request token", async () => {
+		const { factory, client, User } = setup();
+		client.transactWrite
+			.mockRejectedValueOnce(throttled())
+			.mockRejectedValueOnce(throttled())
+			.mockResolvedValueOnce({});
+
+		await factory.transaction().put(User, { id: "user-1", orders: 0 }).exec();
+
+		expect(client.transactWrite).toHaveBeenCalledTimes(3);
+		const tokens = client.transactWrite.mock.calls.map(
+			([request]) => request.ClientRequestToken,
+		);
+		expect(tokens[0]).toEqual(expect.any(String));
+		expect(new Set(tokens).size).toBe(1);
+	});
+});
+
+describe("transactGet", () => {
+	it("returns items in request order with null for misses", async () => {
+		const { factory, client, User, Order } = setup();
+		client.transactGet.mockResolvedValue({
+			Responses: [{ Item: { id: "order-1", total: 20, version: 1 } }, {}],
+		});
+
+		const [order, user] = await factory.transactGet([
+			{ model: Order, key: { id: "order-1" } },
+			{ model: User, key: { id: "user-1" } },
+		]);
+
+		expect(order).toEqual({ id: "order-1", total: 20, version: 1 });
+		expect(user).toBeNull();
+		expect(requestOf(client.transactGet).TransactItems).toEqual([
+			{ Get: { TableName: "orders", Key: { id: "order-1" } } },
+			{ Get: { TableName: "users", Key: { id: "user-1" } } },
+		]);
+	});
+
+	it("retries throttled reads", async () => {
+		const { factory, client, User } = setup();
+		client.transactGet
+			.mockRejectedValueOnce(throttled())
+			.mockResolvedValueOnce({
+				Responses: [{ Item: { id: "user-1", orders: 2 } }],
+			});
+
+		const [user] = await factory.transactGet([
+			{ model: User, key: { id: "user-1" } },
+		]);
+
+		expect(user).toEqual({ id: "user-1", orders: 2 });
+		expect(client.transactGet).toHaveBeenCalledTimes(2);
+	});
+
+	it("retries with the policy in the options instead of the models' own", async () => {
+		const { factory, client } = setup();
+		const Strict = factory.defineModel({
+			tableName: "users",
+			hashKey: "id",
+			schema: z.object({ id: z.string() }),
+			retry: { maxRetries: 0 },
+		});
+		client.transactGet.mockRejectedValue(throttled());
+
+		await expect(
+			factory.transactGet([{ model: Strict, key: { id: "user-1" } }], {
+				retry: { maxRetries: 2 },
+			}),
+		).rejects.toThrow(ThrottlingError);
+		expect(client.transactGet).toHaveBeenCalledTimes(3);
+	});
+});
@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { ValidationError } from "../../errors/DynamoDBError.js";
+import {
+	$add,
+	$append,
+	$prepend,
+	$remove,
+	$setAdd,
+} from "../../update/UpdateOperators.js";
+import { requestOf, stubFactory } from "./stubClient.js";
+
+const schema = z.object({
+	id: z.string(),
+	name: z.string().optional(),
+	a: z.object({ b: z.number() }).optional(),
+	a_b: z.number().optional(),
+	tags: z.array(z.string()).optional(),
+	tags_empty: z.array(z.string()).optional(),
+	count: z.number().optional(),
+	labels: z.set(z.string()).optional(),
+});
+
+function setup() {
+	const { factory, client } = stubFactory();
+	const Doc = factory.defineModel({ tableName: "docs", hashKey: "id", schema });
+	client.update.mockResolvedValue({ Attributes: { id: "doc-1" } });
+	return { Doc, client };
+}
+
+/**
+ * Every placeholder in the expressions must be defined exactly once.
+ */
+function expectConsistentPlaceholders(request: any): void {
+	const expressions = [request.UpdateExpression, request.ConditionExpression]
+		.filter(Boolean)
+		.join(" ");
+	const values = new Set(expressions.match(/:[A-Za-z0-9_]+/g));
+	expect(Object.keys(request.ExpressionAttributeValues).sort()).toEqual(
+		[...values].sort(),
+	);
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("update expressions", () => {
+	it("compiles values and operators into one UpdateItem expression", async () => {
+		const { Doc, client } = setup();
+
+		await Doc.update(
+			{ id: "doc-1" },
+			{
+				name: "Ada",
+				count: $add(2),
+				tags: $prepend(["first"]),
+				labels: $setAdd("new"),
+				a: $remove(),
+			},
+		);
+
+		const request = requestOf(client.update);
+		expect(request.UpdateExpression).toBe(
+			"SET #name = :name, #tags = list_append(:tags, if_not_exists(#tags, :tags_empty)) REMOVE #a ADD #count :count, #labels :labels",
+		);
+		expect(request.ConditionExpression).toBe("(attribute_exists(#id))");
+		expect(request.ExpressionAttributeValues).toEqual({
+			":name": "Ada",
+			":tags": ["first"],
+			":tags_empty": [],
+			":count": 2,
+			":labels": new Set(["new"]),
+		});
+		expect(request.ReturnValues).toBe("ALL_NEW");
+	});
+
+	it("gives a nested path and a flat field with the same base unique placeholders", async () => {
+		const { Doc, client } = setup();
+
+		await Doc.update({ id: "doc-1" }, { "a.b": 1, a_b: 2 });
+
+		const request = requestOf(client.update);
+		expect(request.UpdateExpression).toBe("SET #a_b = :a_b_0, #a.#b = :a_b");
+		expect(request.ExpressionAttributeValues).toMatchObject({
+			":a_b": 1,
+			":a_b_0": 2,
+		});
+		expectConsistentPlaceholders(request);
+	});
+
+	it("keeps the empty list of an append apart from a field named like it", async () => {
+		const { Doc, client } = setup();
+
+		await Doc.update(
+			{ id: "doc-1" },
+			{ tags: $append(["x"]), tags_empty: ["y"] },
+		);
+
+		const request = requestOf(client.update);
+		expect(request.UpdateExpression).toBe(
+			"SET #tags_empty = :tags_empty_0, #tags = list_append(if_not_exists(#tags, :tags_empty), :tags)",
+		);
+		expect(request.ExpressionAttributeValues).toEqual({
+			":tags_empty_0": ["y"],
+			":tags": ["x"],
+			":tags_empty": [],
+		});
+	});
+
+	it("keeps condition placeholders apart from update placeholders", async () => {
+		const { Doc, client } = setup();
+
+		await Doc.update(
+			{ id: "doc-1" },
+			{ count: $add(1) },
+			{ condition: (c) => c.field("count").lt(10) },
+		);
+
+		const request = requestOf(client.update);
+		expect(request.ConditionExpression).toBe(
+			"(attribute_exists(#id)) AND (#count < :count_0)",
+		);
+		expect(request.ExpressionAttributeValues).toEqual({
+			":count": 1,
+			":count_0": 10,
+		});
+	});
+
+	it("rejects an update without changes before sending it", async () => {
+		const { Doc, client } = setup();
+
+		await expect(Doc.update({ id: "doc-1" }, {})).rejects.toThrow(
+			ValidationError,
+		);
+		expect(client.update).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,210 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	ConditionalCheckFailedError,
+	ItemNotFoundError,
+	ThrottlingError,
+	ValidationError,
+	VersionConflictError,
+} from "../../errors/DynamoDBError.js";
+import { requestOf, stubFactory, throttled } from "./stubClient.js";
+
+const schema = z.object({
+	id: z.string(),
+	balance: z.number(),
+	version: z.number().optional(),
+});
+
+function conditionFailed(
+	item?: Record<string, unknown>,
+): ConditionalCheckFailedException {
+	return new ConditionalCheckFailedException({
+		message: "The conditional request failed",
+		$metadata: {},
+		Item: item && marshall(item),
+	});
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("conditional writes", () => {
+	function setup() {
+		const { factory, client } = stubFactory();
+		const Account = factory.defineModel({
+			tableName: "accounts",
+			hashKey: "id",
+			schema,
+		});
+		return { Account, client };
+	}
+
+	it("creates only new items", async () => {
+		const { Account, client } = setup();
+		client.put.mockResolvedValue({});
+
+		await Account.create({ id: "acc-1", balance: 0 });
+
+		expect(requestOf(client.put)).toMatchObject({
+			Item: { id: "acc-1", balance: 0 },
+			ConditionExpression: "(attribute_not_exists(#id))",
+			ExpressionAttributeNames: { "#id": "id" },
+		});
+	});
+
+	it("combines a caller condition with the built-in guards", async () => {
+		const { Account, client } = setup();
+		client.put.mockResolvedValue({});
+
+		await Account.create(
+			{ id: "acc-1", balance: 0 },
+			{ condition: (c) => c.field("balance").gte(0) },
+		);
+
+		const request = requestOf(client.put);
+		expect(request.ConditionExpression).toBe(
+			"(attribute_not_exists(#id)) AND (#balance >= :balance)",
+		);
+		expect(request.ExpressionAttributeValues).toEqual({ ":balance": 0 });
+	});
+
+	it("reports a failed condition with the current item", async () => {
+		const { Account, client } = setup();
+		client.put.mockRejectedValue(conditionFailed({ id: "acc-1", balance: 5 }));
+
+		const error = await Account.create({ id: "acc-1", balance: 0 }).catch(
+			(error) => error,
+		);
+
+		expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+		expect(error.item).toEqual({ id: "acc-1", balance: 5 });
+		expect(error.operation).toBe("PutItem");
+		expect(error.tableName).toBe("accounts");
+	});
+
+	it("reports an update of a missing item as ItemNotFoundError", async () => {
+		const { Account, client } = setup();
+		client.update.mockRejectedValue(conditionFailed());
+
+		await expect(
+			Account.update({ id: "acc-1" }, { balance: 1 }),
+		).rejects.toThrow(ItemNotFoundError);
+	});
+
+	it("retries throttled writes and gives up after maxRetries", async () => {
+		const { Account, client } = setup();
+		client.put.mockRejectedValueOnce(throttled()).mockResolvedValueOnce({});
+
+		await Account.put({ id: "acc-1", balance: 0 });
+		expect(client.put).toHaveBeenCalledTimes(2);
+
+		client.put.mockReset().mockRejectedValue(throttled());
+		await expect(
+			Account.put({ id: "acc-1", balance: 0 }, { retry: { maxRetries: 2 } }),
+		).rejects.toThrow(ThrottlingError);
+		expect(client.put).toHaveBeenCalledTimes(3);
+	});
+});
+
+describe("versioned writes", () => {
+	function setup() {
+		const { factory, client } = stubFactory();
+		const Account = factory.defineModel({
+			tableName: "accounts",
+			hashKey: "id",
+			schema,
+			version: { attribute: "version" },
+		});
+		return { Account, client };
+	}
+
+	it("starts new items at version 1", async () => {
+		const { Account, client } = setup();
+		client.put.mockResolvedValue({});
+
+		const created = await Account.create({ id: "acc-1", balance: 0 });
+
+		expect(created.version).toBe(1);
+		expect(requestOf(client.put).Item.version).toBe(1);
+	});
+
+	it("puts the next version only over the expected one", async () => {
+		const { Account, client } = setup();
+		client.put.mockResolvedValue({});
+
+		await Account.put({ id: "acc-1", balance: 10, version: 3 });
+
+		expect(requestOf(client.put)).toMatchObject({
+			Item: { id: "acc-1", balance: 10, version: 4 },
+			ConditionExpression: "(#version = :version)",
+			ExpressionAttributeValues: { ":version": 3 },
+		});
+	});
+
+	it("increments the version on update", async () => {
+		const { Account, client } = setup();
+		client.update.mockResolvedValue({
+			Attributes: { id: "acc-1", balance: 1, version: 3 },
+		});
+
+		await Account.update(
+			{ id: "acc-1" },
+			{ balance: 1 },
+			{ expectedVersion: 2 },
+		);
+
+		const request = requestOf(client.update);
+		expect(request.UpdateExpression).toBe(
+			"SET #balance = :balance ADD #version :version",
+		);
+		expect(request.ConditionExpression).toBe(
+			"(attribute_exists(#id)) AND (#version = :version_0)",
+		);
+		expect(request.ExpressionAttributeValues).toEqual({
+			":balance": 1,
+			":version": 1,
+			":version_0": 2,
+		});
+	});
+
+	it("requires expectedVersion on update and destroy", async () => {
+		const { Account, client } = setup();
+
+		await expect(
+			Account.update({ id: "acc-1" }, { balance: 1 }),
+		).rejects.toThrow(ValidationError);
+		await expect(Account.destroy({ id: "acc-1" })).rejects.toThrow(
+			ValidationError,
+		);
+		expect(client.update).not.toHaveBeenCalled();
+		expect(client.delete).not.toHaveBeenCalled();
+	});
+
+	it("reports a stale version as VersionConflictError", async () => {
+		const { Account, client } = setup();
+		client.delete.mockRejectedValue(
+			conditionFailed({ id: "acc-1", balance: 0, version: 5 }),
+		);
+
+		const error = await Account.destroy(
+			{ id: "acc-1" },
+			{ expectedVersion: 4 },
+		).catch((error) => error);
+
+		expect(error).toBeInstanceOf(VersionConflictError);
+		expect(error.expectedVersion).toBe(4);
+		expect(error.actualVersion).toBe(5);
+	});
+
+	it("rejects batch writes", async () => {
+		const { Account, client } = setup();
+
+		await expect(
+			Account.putMany([{ id: "acc-1", balance: 0 }]),
+		).rejects.toThrow(ValidationError);
+		expect(client.batchWrite).not.toHaveBeenCalled();
+	});
+});
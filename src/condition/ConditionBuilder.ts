@@ -0,0 +1,99 @@
+import type { z } from "zod";
+import {
+	FilterConditions,
+	StringFilterConditions,
+} from "../query/QueryConditions.js";
+import { QueryExpressions } from "../query/QueryExpressions.js";
+import type {
+	ConditionExpression,
+	DynamoDBExpression,
+	SchemaKeys,
+	SchemaPath,
+	SchemaPathValue,
+} from "../types/Query.js";
+import { resolvePathSchema } from "../utils/paths.js";
+
+/**
+ * Collects typed conditions for a write's ConditionExpression, reusing the
+ * same operator surface as `QueryBuilder.filter()`.
+ *
+ * @example
+ * ```typescript
+ * await Post.update({ id: 'post-1' }, { title: 'New' }, {
+ *   condition: (c) => c.field('status').eq('draft'),
+ * });
+ * ```
+ */
+export class ConditionBuilder<TSchema extends z.ZodObject<any>> {
+	private conditions: ConditionExpression[] = [];
+
+	constructor(
+		private readonly schema: TSchema,
+		private readonly reservedValueKeys: string[] = [],
+	) {}
+
+	field<TField extends SchemaPath<TSchema>>(
+		fieldName: TField,
+	): SchemaPathValue<TSchema, TField> extends string
+		? StringFilterConditions<TSchema, TField, ConditionBuilder<TSchema>>
+		: FilterConditions<TSchema, TField, ConditionBuilder<TSchema>> {
+		const existingKeys = this.getExistingValueKeys();
+		const addCondition = (condition: ConditionExpression) => {
+			this.conditions.push(condition);
+			return this;
+		};
+
+		if (this.isStringField(fieldName)) {
+			return new StringFilterConditions(
+				String(fieldName),
+				addCondition,
+				existingKeys,
+			) as any;
+		}
+
+		return new FilterConditions(
+			String(fieldName),
+			addCondition,
+			existingKeys,
+		) as any;
+	}
+
+	/**
+	 * Adds an already built condition, e.g. the key guard of a write.
+	 */
+	add(condition: ConditionExpression): this {
+		this.conditions.push(condition);
+		return this;
+	}
+
+	isEmpty(): boolean {
+		return this.conditions.length === 0;
+	}
+
+	build(): DynamoDBExpression {
+		return QueryExpressions.buildExpression(this.conditions);
+	}
+
+	private getExistingValueKeys(): string[] {
+		return [
+			...this.reservedValueKeys,
+			...Object.keys(this.build().attributeValues),
+		];
+	}
+
+	private isStringField(
+		fieldName: SchemaKeys<TSchema> | SchemaPath<TSchema>,
+	): boolean {
+		try {
+			const field = resolvePathSchema(this.schema, String(fieldName));
+
+			if (!field || typeof field._def !== "object") {
+				return false;
+			}
+
+			return field._def.typeName === "ZodString";
+		} catch {
+			return false;
+		}
+	}
+}
@@ -1,6 +1,29 @@
-export abstract class DynamoDBError extends Error {
+import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
+import type { WriteOperation } from "../types/Model.js";
+
+// Where a failed request was sent, filled in by `mapError`
+export interface DynamoDBErrorContext {
+	operation?: string; // DynamoDB API operation, e.g. 'Query'
+	tableName?: string;
+	indexName?: string;
+	requestId?: string;
+}
+
+export abstract class DynamoDBError
+	extends Error
+	implements DynamoDBErrorContext
+{
 	abstract readonly code: string;
 	abstract readonly statusCode: number;
+	operation?: string;
+	tableName?: string;
+	indexName?: string;
+	requestId?: string;
+
+	constructor(message?: string, options?: ErrorOptions) {
+		super(message, options);
+		this.name = new.target.name;
+	}
 }
 
 export class ItemNotFoundError extends DynamoDBError {
@@ -11,6 +34,82 @@ export class ItemNotFoundError extends DynamoDBError {
 export class ConditionalCheckFailedError extends DynamoDBError {
 	readonly code = "ConditionalCheckFailedException";
 	readonly statusCode = 400;
+
+	constructor(
+		message: string,
+		public item?: Record<string, NativeAttributeValue>,
+	) {
+		super(message);
+		this.name = "ConditionalCheckFailedError";
+	}
+}
+
+export class VersionConflictError extends DynamoDBError {
+	readonly code = "VersionConflict";
+	readonly statusCode = 409;
+
+	constructor(
+		message: string,
+		public expectedVersion: number | undefined,
+		public actualVersion: number | undefined,
+	) {
+		super(message);
+		this.name = "VersionConflictError";
+	}
+}
+
+// Failure of a single operation inside a cancelled transaction
+export interface TransactionCancellationReason {
+	index: number;
+	operation?: WriteOperation;
+	tableName?: string;
+	code: string;
+	message?: string;
+	error?: DynamoDBError;
+}
+
+export class TransactionCanceledError extends DynamoDBError {
+	readonly code = "TransactionCanceledException";
+	readonly statusCode = 400;
+
+	constructor(
+		message: string,
+		public reasons: TransactionCancellationReason[],
+	) {
+		super(message);
+		this.name = "TransactionCanceledError";
+	}
+}
+
+export class ThrottlingError extends DynamoDBError {
+	readonly code = "ThrottlingException";
+	readonly statusCode = 429;
+}
+
+export class ItemTooLargeError extends DynamoDBError {
+	readonly code = "ItemTooLarge";
+	readonly statusCode = 413;
+}
+
+export class AccessDeniedError extends DynamoDBError {
+	readonly code = "AccessDeniedException";
+	readonly statusCode = 403;
+}
+
+// Any other failure reported by DynamoDB, keeping the AWS error name as code
+export class ServiceError extends DynamoDBError {
+	constructor(
+		message: string,
+		readonly code: string,
+		readonly statusCode: number,
+	) {
+		super(message);
+	}
+}
+
+export class UnprocessedItemsError extends DynamoDBError {
+	readonly code = "UnprocessedItems";
+	readonly statusCode = 503;
 }
 
 export class ValidationError extends DynamoDBError {
@@ -18,6 +117,16 @@ export class ValidationError extends DynamoDBError {
 	readonly statusCode = 400;
 }
 
+export class InvalidCursorError extends DynamoDBError {
+	readonly code = "InvalidCursor";
+	readonly statusCode = 400;
+
+	constructor(message: string) {
+		super(message);
+		this.name = "InvalidCursorError";
+	}
+}
+
 export class ResourceNotFoundError extends DynamoDBError {
 	readonly code = "ResourceNotFoundException";
 	readonly statusCode = 404;
@@ -0,0 +1,124 @@
+import {
+	AccessDeniedError,
+	ConditionalCheckFailedError,
+	DynamoDBError,
+	type DynamoDBErrorContext,
+	ItemTooLargeError,
+	ResourceInUseError,
+	ResourceNotFoundError,
+	ServiceError,
+	ThrottlingError,
+	TransactionCanceledError,
+	ValidationError,
+} from "./DynamoDBError.js";
+
+// Shape shared by the AWS SDK's service exceptions
+interface ServiceException extends Error {
+	$fault?: "client" | "server";
+	$metadata: { httpStatusCode?: number; requestId?: string };
+	CancellationReasons?: { Code?: string; Message?: string }[];
+}
+
+const THROTTLING = new Set([
+	"ThrottlingException",
+	"ProvisionedThroughputExceededException",
+	"RequestLimitExceeded",
+]);
+
+const ACCESS_DENIED = new Set([
+	"AccessDeniedException",
+	"UnrecognizedClientException",
+	"MissingAuthenticationTokenException",
+]);
+
+/**
+ * Turns a failure into the `DynamoDBError` hierarchy and records where it
+ * happened. AWS exceptions become the matching class with the exception as
+ * `cause`; errors that are already `DynamoDBError`s only get the missing
+ * context; anything else is returned unchanged. `mapped` replaces the
+ * default mapping when the caller knows more, e.g. about a failed condition.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.query(request);
+ * } catch (error) {
+ *   throw mapError(error, { operation: 'Query', tableName, indexName });
+ * }
+ * ```
+ */
+export function mapError(
+	error: unknown,
+	context: DynamoDBErrorContext,
+	mapped?: DynamoDBError,
+): Error {
+	const result =
+		mapped ??
+		(error instanceof DynamoDBError ? error : fromServiceException(error));
+
+	if (!result) {
+		return error instanceof Error ? error : new Error(String(error));
+	}
+
+	if (result !== error) {
+		result.cause ??= error;
+	}
+	result.operation ??= context.operation;
+	result.tableName ??= context.tableName;
+	result.indexName ??= context.indexName;
+	result.requestId ??= isServiceException(error)
+		? error.$metadata.requestId
+		: context.requestId;
+	return result;
+}
+
+function fromServiceException(error: unknown): DynamoDBError | undefined {
+	if (!isServiceException(error)) {
+		return undefined;
+	}
+
+	const { name, message } = error;
+	if (THROTTLING.has(name)) {
+		return new ThrottlingError(message);
+	}
+	if (ACCESS_DENIED.has(name)) {
+		return new AccessDeniedError(message);
+	}
+
+	switch (name) {
+		case "ConditionalCheckFailedException":
+			return new ConditionalCheckFailedError(message);
+		case "TransactionCanceledException":
+			return new TransactionCanceledError(
+				`Transaction cancelled: ${message}`,
+				(error.CancellationReasons ?? []).flatMap((reason, index) =>
+					reason.Code && reason.Code !== "None"
+						? [{ index, code: reason.Code, message: reason.Message }]
+						: [],
+				),
+			);
+		case "ValidationException":
+			// DynamoDB reports the 400 KB item limit as a validation error
+			return /item size/i.test(message)
+				? new ItemTooLargeError(message)
+				: new ValidationError(message);
+		case "ResourceNotFoundException":
+			return new ResourceNotFoundError(message);
+		case "ResourceInUseException":
+			return new ResourceInUseError(message);
+		default:
+			return new ServiceError(
+				message,
+				name,
+				error.$metadata.httpStatusCode ??
+					(error.$fault === "client" ? 400 : 500),
+			);
+	}
+}
+
+function isServiceException(error: unknown): error is ServiceException {
+	return (
+		error instanceof Error &&
+		typeof (error as Partial<ServiceException>).$metadata === "object"
+	);
+}
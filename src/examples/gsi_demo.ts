@@ -72,6 +72,12 @@ try {
 	);
 	console.log("✅ Valid index name accepted:", typeof emailQuery);
 
+	// queryIndex requires the index hash key at compile time
+	const emailIndexQuery = User.queryIndex("EmailIndex", {
+		email: "test@example.com",
+	});
+	console.log("✅ Index key values typed from config:", typeof emailIndexQuery);
+
 	// Test 3: Query validation (will fail at runtime with mock client, but tests compilation)
 	console.log("\n🧪 Test 3: GSI Query Compilation");
 
@@ -94,6 +100,7 @@ try {
 
 	try {
 		// This should throw a GSIValidationError because 'invalidField' is not a valid key for EmailIndex
+		// @ts-expect-error - unknown fields are also rejected at compile time
 		User.query({ invalidField: "value" }).usingIndex("EmailIndex");
 	} catch (error: any) {
 		if (error.name === "GSIValidationError") {
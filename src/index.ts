@@ -1,15 +1,65 @@
 export { Model } from "./Model.js";
 export { ModelFactory } from "./ModelFactory.js";
+export { EntityTable } from "./EntityTable.js";
 export { TableManager } from "./TableManager.js";
 export type { GSIStatusReport } from "./TableManager.js";
 export { QueryBuilder } from "./query/QueryBuilder.js";
+export { ScanBuilder } from "./scan/ScanBuilder.js";
+export { ParallelScan } from "./scan/ParallelScan.js";
+export { ItemIterator } from "./query/ItemIterator.js";
+export { ConditionBuilder } from "./condition/ConditionBuilder.js";
+export type { ConditionFactory } from "./query/ConditionFactory.js";
+export { TransactionBuilder } from "./transaction/TransactionBuilder.js";
+
+// Condition helpers
+export { ref, AttributeRef } from "./query/AttributeRef.js";
+
+// Update operators
+export {
+	$add,
+	$subtract,
+	$append,
+	$prepend,
+	$setAdd,
+	$setDelete,
+	$remove,
+	UpdateOperation,
+} from "./update/UpdateOperators.js";
+export type {
+	CounterOperation,
+	ListOperation,
+	SetOperation,
+	RemoveOperation,
+	UpdateOperationKind,
+} from "./update/UpdateOperators.js";
 
 // Model and GSI types
 export type {
 	ModelConfig,
+	ModelFactoryOptions,
 	ModelOptions,
+	GetOptions,
+	SelectedItem,
 	PrimaryKey,
 	UpdateInput,
+	UpdateValue,
+	CreateInput,
+	PutInput,
+	VersionAttribute,
+	ModelItem,
+	ModelKey,
+	EntityItem,
+	TransactGetRequest,
+	TransactGetOptions,
+	WriteOperation,
+	BatchOptions,
+	RetryPolicy,
+	RetryEvent,
+	BatchWriteOptions,
+	BatchWriteResult,
+	GetManyOptions,
+	WriteOptions,
+	ConditionCallback,
 	GSIConfig,
 	LSIConfig,
 	IndexInfo,
@@ -22,17 +72,58 @@ export type {
 export type {
 	QueryOptions,
 	QueryResult,
+	CountResult,
+	ConnectionArgs,
+	Connection,
+	Edge,
+	PageInfo,
+	ItemsOptions,
+	PageOptions,
+	StreamOptions,
+	KeyedResult,
+	EntityReader,
 	ConditionExpression,
 	DynamoDBExpression,
 	SchemaKeys,
+	SchemaPath,
+	SchemaPathValue,
+	DocumentPath,
+	PathValue,
+	AttributeType,
+	SizeableValue,
 	IndexConfig,
 } from "./types/Query.js";
 
+// Scan types
+export type {
+	ScanOptions,
+	ScanResult,
+	ParallelScanPage,
+	ParallelScanCheckpoint,
+	ParallelScanOptions,
+} from "./types/Scan.js";
+
 // Error classes
 export {
+	DynamoDBError,
 	ItemNotFoundError,
+	ConditionalCheckFailedError,
+	VersionConflictError,
+	TransactionCanceledError,
+	UnprocessedItemsError,
 	ValidationError,
+	InvalidCursorError,
 	GSIValidationError,
 	IndexNotFoundError,
 	ProjectionError,
+	ResourceNotFoundError,
+	ResourceInUseError,
+	ThrottlingError,
+	ItemTooLargeError,
+	AccessDeniedError,
+	ServiceError,
+} from "./errors/DynamoDBError.js";
+export type {
+	DynamoDBErrorContext,
+	TransactionCancellationReason,
 } from "./errors/DynamoDBError.js";
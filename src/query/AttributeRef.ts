@@ -0,0 +1,19 @@
+/**
+ * A reference to another attribute, used as the right-hand side of a filter
+ * or condition comparison instead of a value.
+ * Instances are created through the `ref` helper.
+ */
+export class AttributeRef<TPath extends string = string> {
+	constructor(readonly path: TPath) {}
+}
+
+/**
+ * Compares against another attribute of the same item (`#a > #b`).
+ * @example
+ * await Post.scan().filter('updatedAt').gt(ref('publishedAt')).exec();
+ */
+export function ref<const TPath extends string>(
+	path: TPath,
+): AttributeRef<TPath> {
+	return new AttributeRef(path);
+}
@@ -0,0 +1,84 @@
+import type { z } from "zod";
+import type {
+	ConditionExpression,
+	SchemaPath,
+	SchemaPathValue,
+} from "../types/Query.js";
+import { resolvePathSchema } from "../utils/paths.js";
+import { FilterConditions, StringFilterConditions } from "./QueryConditions.js";
+import { QueryExpressions } from "./QueryExpressions.js";
+
+/**
+ * Builds standalone conditions for grouped boolean logic. Calling it with a
+ * field returns the usual filter operators, which return the condition
+ * instead of a builder; `all`, `any` and `not` nest groups.
+ *
+ * @example
+ * ```typescript
+ * query.filterAny((f) => [
+ *   f('status').eq('active'),
+ *   f.all([f('role').eq('admin'), f.not(f('suspended').eq(true))]),
+ * ]);
+ * ```
+ */
+export interface ConditionFactory<TSchema extends z.ZodObject<any>> {
+	<TField extends SchemaPath<TSchema>>(
+		fieldName: TField,
+	): SchemaPathValue<TSchema, TField> extends string
+		? StringFilterConditions<TSchema, TField, ConditionExpression>
+		: FilterConditions<TSchema, TField, ConditionExpression>;
+	all(conditions: ConditionExpression[]): ConditionExpression;
+	any(conditions: ConditionExpression[]): ConditionExpression;
+	not(
+		condition: ConditionExpression | ConditionExpression[],
+	): ConditionExpression;
+}
+
+/**
+ * Creates a condition factory for `schema`. Every value key produced is
+ * appended to `usedValueKeys`, so conditions built in the same group never
+ * reuse a placeholder. `onField` is told about every field referenced.
+ */
+export function createConditionFactory<TSchema extends z.ZodObject<any>>(
+	schema: TSchema,
+	usedValueKeys: string[],
+	onField?: (fieldName: string) => void,
+): ConditionFactory<TSchema> {
+	const addCondition = (condition: ConditionExpression) => {
+		usedValueKeys.push(...Object.keys(condition.attributeValues));
+		return condition;
+	};
+
+	const factory = (fieldName: SchemaPath<TSchema>) => {
+		onField?.(fieldName);
+		if (isStringField(schema, fieldName)) {
+			return new StringFilterConditions(
+				String(fieldName),
+				addCondition,
+				usedValueKeys,
+			);
+		}
+		return new FilterConditions(String(fieldName), addCondition, usedValueKeys);
+	};
+
+	return Object.assign(factory, {
+		all: (conditions: ConditionExpression[]) =>
+			QueryExpressions.groupConditions(conditions, "AND"),
+		any: (conditions: ConditionExpression[]) =>
+			QueryExpressions.groupConditions(conditions, "OR"),
+		not: (condition: ConditionExpression | ConditionExpression[]) =>
+			QueryExpressions.negateCondition(
+				Array.isArray(condition)
+					? QueryExpressions.groupConditions(condition, "AND")
+					: condition,
+			),
+	}) as ConditionFactory<TSchema>;
+}
+
+function isStringField<TSchema extends z.ZodObject<any>>(
+	schema: TSchema,
+	fieldName: SchemaPath<TSchema>,
+): boolean {
+	const field = resolvePathSchema(schema, fieldName);
+	return !!field && field._def?.typeName === "ZodString";
+}
@@ -0,0 +1,77 @@
+import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
+import { ValidationError } from "../errors/DynamoDBError.js";
+import type { ItemsOptions, KeyedResult } from "../types/Query.js";
+
+type FetchKeyedPage<T> = (
+	startKey?: Record<string, NativeAttributeValue>,
+) => Promise<KeyedResult<T>>;
+
+/**
+ * Iterates single items across pages, fetching the next page only when the
+ * current one is used up and stopping once `max` items have been yielded.
+ *
+ * `lastEvaluatedKey` always points right after the last yielded item, also
+ * when iteration stopped in the middle of a page, so it can be passed to
+ * `startKey()` to continue where this iterator left off.
+ *
+ * @example
+ * ```typescript
+ * const iterator = Order.query({ customerId }).items({ max: 500 });
+ * for await (const order of iterator) {
+ *   await exportOrder(order);
+ * }
+ * saveResumeKey(iterator.lastEvaluatedKey);
+ * ```
+ */
+export class ItemIterator<T> implements AsyncIterable<T> {
+	private resumeKey?: Record<string, NativeAttributeValue>;
+	private readonly max: number;
+
+	constructor(
+		private readonly fetchPage: FetchKeyedPage<T>,
+		private readonly startKey?: Record<string, NativeAttributeValue>,
+		options: ItemsOptions = {},
+	) {
+		const max = options.max ?? Number.POSITIVE_INFINITY;
+		if (
+			max !== Number.POSITIVE_INFINITY &&
+			(!Number.isInteger(max) || max < 1)
+		) {
+			throw new ValidationError("max must be a positive integer");
+		}
+		this.max = max;
+		this.resumeKey = startKey;
+	}
+
+	/**
+	 * Key to resume from, or `undefined` once every matching item was read.
+	 */
+	get lastEvaluatedKey(): Record<string, NativeAttributeValue> | undefined {
+		return this.resumeKey;
+	}
+
+	async *[Symbol.asyncIterator](): AsyncIterator<T> {
+		let startKey = this.startKey;
+		let yielded = 0;
+
+		do {
+			const page = await this.fetchPage(startKey);
+
+			for (let i = 0; i < page.items.length; i++) {
+				// After the last item of a page, DynamoDB's own key is exact
+				this.resumeKey =
+					i === page.items.length - 1
+						? page.lastEvaluatedKey
+						: page.itemKeys[i];
+				yield page.items[i];
+
+				if (++yielded >= this.max) {
+					return;
+				}
+			}
+
+			startKey = page.lastEvaluatedKey;
+			this.resumeKey = startKey;
+		} while (startKey);
+	}
+}
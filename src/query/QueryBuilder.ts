@@ -2,109 +2,159 @@ import type {
 	DynamoDBDocument,
 	NativeAttributeValue,
 	QueryCommandInput,
+	QueryCommandOutput,
 } from "@aws-sdk/lib-dynamodb";
-import { z } from "zod";
-import type { IndexNames, ModelConfig } from "../types/Model.js";
+import type { z } from "zod";
+import {
+	GSIValidationError,
+	ValidationError,
+} from "../errors/DynamoDBError.js";
+import type {
+	ActiveRangeKey,
+	IndexNames,
+	ModelConfig,
+	PrimaryKey,
+	ProjectedItem,
+} from "../types/Model.js";
 import type {
 	ConditionExpression,
+	Connection,
+	ConnectionArgs,
+	EntityReader,
+	ItemLoader,
 	QueryOptions,
-	QueryResult,
 	SchemaKeys,
+	SchemaPathValue,
 } from "../types/Query.js";
-import {
-	FilterConditions,
-	QueryConditions,
-	StringFilterConditions,
-	StringQueryConditions,
-} from "./QueryConditions.js";
+import { decodeCursor, encodeCursor } from "../utils/cursor.js";
+import { fillPage } from "../utils/pagination.js";
+import { KeyConditions, StringKeyConditions } from "./QueryConditions.js";
 import { QueryExpressions } from "./QueryExpressions.js";
+import { ReadBuilder } from "./ReadBuilder.js";
 
 export class QueryBuilder<
 	TSchema extends z.ZodObject<any>,
 	THashKey extends keyof z.infer<TSchema>,
 	TRangeKey extends keyof z.infer<TSchema> | undefined = undefined,
 	TConfig extends ModelConfig<TSchema> = ModelConfig<TSchema>,
+	TIndex extends IndexNames<TConfig> | undefined = undefined,
+	TItem = ProjectedItem<TSchema, TConfig, THashKey, TRangeKey, TIndex>,
+> extends ReadBuilder<
+	TSchema,
+	TConfig,
+	TItem,
+	QueryCommandInput,
+	PrimaryKey<TSchema, THashKey, TRangeKey>
 > {
+	protected readonly operation = "Query";
+	protected readonly options: QueryOptions = {};
 	private keyConditions: ConditionExpression[] = [];
-	private filterConditions: ConditionExpression[] = [];
-	private options: QueryOptions = {};
-	private indexName?: string;
-	private isLoadAll = false;
+	private rangeKeyField?: string;
 
 	constructor(
-		private readonly client: DynamoDBDocument,
-		private readonly config: TConfig,
+		client: DynamoDBDocument,
+		config: TConfig,
 		private readonly keyValues: Partial<z.infer<TSchema>>,
-	) {}
-
-	where<TField extends SchemaKeys<TSchema>>(fieldName: TField): any {
-		const existingKeys = this.getExistingValueKeys();
-		const addCondition = (condition: ConditionExpression) => {
-			this.keyConditions.push(condition);
-			return this;
-		};
-
-		if (this.isStringField(fieldName)) {
-			return new StringQueryConditions(
-				String(fieldName),
-				addCondition,
-				existingKeys,
-			);
-		}
-
-		return new QueryConditions(String(fieldName), addCondition, existingKeys);
+		loadItems?: ItemLoader<
+			z.infer<TSchema>,
+			PrimaryKey<TSchema, THashKey, TRangeKey>
+		>,
+		reader?: EntityReader<TItem>,
+	) {
+		super(client, config, loadItems, reader);
 	}
 
-	filter<TField extends SchemaKeys<TSchema>>(
+	/**
+	 * Adds the range key condition to the KeyConditionExpression. Only the
+	 * range key of the table, or of the index selected with `usingIndex()`,
+	 * is accepted, with the operators DynamoDB allows on a key.
+	 * @example
+	 * User.query({ email }).usingIndex('EmailIndex').where('createdAt').gte(since)
+	 */
+	where<
+		TField extends Extract<
+			ActiveRangeKey<TConfig, TRangeKey, TIndex>,
+			SchemaKeys<TSchema>
+		>,
+	>(
 		fieldName: TField,
-	): z.infer<TSchema>[TField] extends string
-		? StringFilterConditions<
-				TSchema,
-				TField,
-				QueryBuilder<TSchema, THashKey, TRangeKey>
-			>
-		: FilterConditions<
-				TSchema,
-				TField,
-				QueryBuilder<TSchema, THashKey, TRangeKey>
-			> {
+	): SchemaPathValue<TSchema, TField> extends string
+		? StringKeyConditions<TSchema, TField, this>
+		: KeyConditions<TSchema, TField, this> {
+		this.assertRangeKeyCondition(String(fieldName));
+		this.rangeKeyField = String(fieldName);
+
 		const existingKeys = this.getExistingValueKeys();
 		const addCondition = (condition: ConditionExpression) => {
-			this.filterConditions.push(condition);
+			this.keyConditions.push(condition);
 			return this;
 		};
 
 		if (this.isStringField(fieldName)) {
-			return new StringFilterConditions(
+			return new StringKeyConditions(
 				String(fieldName),
 				addCondition,
 				existingKeys,
 			) as any;
 		}
 
-		return new FilterConditions(
+		return new KeyConditions(
 			String(fieldName),
 			addCondition,
 			existingKeys,
 		) as any;
 	}
 
-	usingIndex(indexName: IndexNames<TConfig>): this {
-		this.indexName = indexName as string;
-		return this;
+	/**
+	 * Queries a secondary index instead of the table. Throws
+	 * `IndexNotFoundError` for an unknown index and `GSIValidationError` when
+	 * the key values do not match the index's key schema.
+	 */
+	usingIndex<TName extends IndexNames<TConfig>>(
+		indexName: TName,
+	): QueryBuilder<TSchema, THashKey, TRangeKey, TConfig, TName> {
+		this.selectIndex(indexName as string);
+		this.validateKeySchema();
+		return this as any;
 	}
 
-	consistentRead(enabled = true): this {
-		this.options.ConsistentRead = enabled;
-		return this;
+	/**
+	 * Replaces the partial items of a KEYS_ONLY or INCLUDE index with the
+	 * full table items, fetched page by page through `getMany`. Items deleted
+	 * in the meantime are dropped.
+	 */
+	hydrate(): QueryBuilder<
+		TSchema,
+		THashKey,
+		TRangeKey,
+		TConfig,
+		TIndex,
+		z.infer<TSchema>
+	> {
+		this.enableHydrate();
+		return this as any;
 	}
 
-	limit(count: number): this {
-		if (count <= 0) {
-			throw new Error("Limit must be greater than 0");
-		}
-		this.options.Limit = count;
-		return this;
+	/**
+	 * Only reads the given top-level attributes (ProjectionExpression) and
+	 * narrows the result type to them. After `hydrate()`, the selection is
+	 * applied to the table items instead.
+	 * @example
+	 * const users = await User.query({ id }).select(['id', 'email']).exec();
+	 * // => { id: string; email: string }[]
+	 */
+	select<const K extends keyof TItem & string>(
+		attributes: readonly K[],
+	): QueryBuilder<
+		TSchema,
+		THashKey,
+		TRangeKey,
+		TConfig,
+		TIndex,
+		Pick<TItem, K>
+	> {
+		this.selectAttributes(attributes);
+		return this as any;
 	}
 
 	ascending(): this {
@@ -117,120 +167,84 @@ export class QueryBuilder<
 		return this;
 	}
 
-	startKey(key: Record<string, NativeAttributeValue>): this {
-		this.options.ExclusiveStartKey = key;
-		return this;
-	}
-
-	returnConsumedCapacity(level: "INDEXES" | "TOTAL" | "NONE" = "NONE"): this {
-		this.options.ReturnConsumedCapacity = level;
-		return this;
-	}
-
-	loadAll(): this {
-		this.isLoadAll = true;
-		return this;
-	}
-
-	async exec(): Promise<z.infer<TSchema>[]> {
-		if (this.isLoadAll) {
-			return this.execLoadAll();
-		}
-
-		const result = await this.execWithPagination();
-		return result.items;
-	}
-
-	async execWithPagination(
-		lastEvaluatedKey?: Record<string, any>,
-	): Promise<QueryResult<z.infer<TSchema>>> {
-		const request = this.buildRequest();
-
-		if (lastEvaluatedKey) {
-			request.ExclusiveStartKey = lastEvaluatedKey;
-		}
-
-		try {
-			const response = await this.client.query(request);
-
-			const items = (response.Items || []).map((item) =>
-				this.validateAndTransform(item),
-			);
-
-			return {
-				items,
-				lastEvaluatedKey: response.LastEvaluatedKey,
-				count: response.Count || 0,
-				scannedCount: response.ScannedCount || 0,
-				consumedCapacity: response.ConsumedCapacity,
-			};
-		} catch (error) {
-			throw new Error(
-				`Query failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+	/**
+	 * Relay-style pagination. `first`/`after` pages in the query's order,
+	 * `last`/`before` reads backwards with `ScanIndexForward` reversed; edges
+	 * are always returned in the query's order. Like `graphql-relay`,
+	 * `hasPreviousPage` is only computed for backward pages and `hasNextPage`
+	 * only for forward pages. Edge cursors require a `cursorSecret`.
+	 * @example
+	 * const { edges, pageInfo } = await Post.query({ userId }).connection({ first: 20, after });
+	 */
+	async connection(args: ConnectionArgs): Promise<Connection<TItem>> {
+		const backward = args.last !== undefined || args.before !== undefined;
+		const size = backward ? args.last : args.first;
+		if (
+			(backward && (args.first !== undefined || args.after !== undefined)) ||
+			size === undefined ||
+			!Number.isInteger(size) ||
+			size < 1
+		) {
+			throw new ValidationError(
+				"connection() requires a positive 'first' (with 'after') or 'last' (with 'before')",
 			);
 		}
-	}
-
-	async *stream(): AsyncIterableIterator<z.infer<TSchema>[]> {
-		let lastEvaluatedKey = this.options.ExclusiveStartKey;
 
-		do {
-			const result = await this.execWithPagination(lastEvaluatedKey);
-
-			yield result.items;
+		const context = this.cursorContext(this.buildRequest(true));
+		const cursor = backward ? args.before : args.after;
+		const forward = (this.options.ScanIndexForward ?? true) !== backward;
+		// One item is read ahead to tell whether more exist
+		const page = await fillPage(
+			(startKey, missing) =>
+				this.fetchPage(startKey, {
+					ScanIndexForward: forward,
+					Limit: this.pageLimit(missing),
+				}),
+			size + 1,
+			cursor ? decodeCursor(cursor, context) : undefined,
+		);
+		const hasMore = page.items.length > size;
+
+		const edges = page.items.slice(0, size).map((node, i) => ({
+			node,
+			cursor: encodeCursor(page.itemKeys[i], context),
+		}));
+		if (backward) {
+			edges.reverse();
+		}
 
-			lastEvaluatedKey = result.lastEvaluatedKey;
-		} while (lastEvaluatedKey);
+		return {
+			edges,
+			pageInfo: {
+				hasNextPage: !backward && hasMore,
+				hasPreviousPage: backward && hasMore,
+				startCursor: edges[0]?.cursor ?? null,
+				endCursor: edges[edges.length - 1]?.cursor ?? null,
+			},
+		};
 	}
 
-	private async execLoadAll(): Promise<z.infer<TSchema>[]> {
-		const allItems: z.infer<TSchema>[] = [];
-
-		for await (const items of this.stream()) {
-			allItems.push(items);
+	protected createRequest(): QueryCommandInput {
+		this.validateKeySchema();
+		// usingIndex() may have been called after where()
+		if (this.rangeKeyField) {
+			this.assertRangeKeyCondition(this.rangeKeyField, false);
 		}
 
-		return allItems;
-	}
-
-	private buildRequest(): QueryCommandInput {
-		// Start with properly typed base request
 		const request: QueryCommandInput = {
 			TableName: this.config.tableName,
 		};
-
-		// Apply options with proper property names
-		if (this.options.ConsistentRead !== undefined) {
-			request.ConsistentRead = this.options.ConsistentRead;
-		}
-		if (this.options.Limit !== undefined) {
-			request.Limit = this.options.Limit;
-		}
 		if (this.options.ScanIndexForward !== undefined) {
 			request.ScanIndexForward = this.options.ScanIndexForward;
 		}
-		if (this.options.ExclusiveStartKey !== undefined) {
-			request.ExclusiveStartKey = this.options.ExclusiveStartKey;
-		}
-		if (this.options.ProjectionExpression !== undefined) {
-			request.ProjectionExpression = this.options.ProjectionExpression;
-		}
-		if (this.options.ReturnConsumedCapacity !== undefined) {
-			request.ReturnConsumedCapacity = this.options.ReturnConsumedCapacity;
-		}
-
-		if (this.indexName) {
-			request.IndexName = this.indexName;
-		}
 
 		// Build key conditions directly from keyValues
 		const keyConditions = this.buildKeyConditions();
-		const allKeyConditions = [...keyConditions, ...this.keyConditions];
-
-		const keyConditionExpression =
-			QueryExpressions.buildExpression(allKeyConditions);
+		const keyConditionExpression = QueryExpressions.buildExpression([
+			...keyConditions,
+			...this.keyConditions,
+		]);
 
-		//*Step 1: create key condition expression
 		if (keyConditionExpression.expression) {
 			request.KeyConditionExpression = keyConditionExpression.expression;
 
@@ -244,32 +258,18 @@ export class QueryBuilder<
 					keyConditionExpression.attributeValues;
 			}
 		}
+		return request;
+	}
 
-		//*Step 2: create filter expression
-		if (this.filterConditions.length > 0) {
-			const filterExpression = QueryExpressions.buildExpression(
-				this.filterConditions,
-			);
-			if (filterExpression.expression) {
-				request.FilterExpression = filterExpression.expression;
-
-				if (Object.keys(filterExpression.attributeNames).length > 0) {
-					request.ExpressionAttributeNames = {
-						...request.ExpressionAttributeNames,
-						...filterExpression.attributeNames,
-					};
-				}
-
-				if (Object.keys(filterExpression.attributeValues).length > 0) {
-					request.ExpressionAttributeValues = {
-						...request.ExpressionAttributeValues,
-						...filterExpression.attributeValues,
-					};
-				}
-			}
-		}
+	protected send(
+		request: QueryCommandInput,
+		abortSignal?: AbortSignal,
+	): Promise<QueryCommandOutput> {
+		return this.client.query(request, { abortSignal });
+	}
 
-		return request;
+	protected cursorScope(request: QueryCommandInput): unknown[] {
+		return [request.KeyConditionExpression ?? null];
 	}
 
 	private buildKeyConditions(): ConditionExpression[] {
@@ -293,6 +293,79 @@ export class QueryBuilder<
 		return conditions;
 	}
 
+	/**
+	 * Range key of the table, or of the index selected with `usingIndex()`.
+	 */
+	private getActiveRangeKey(): string | undefined {
+		if (!this.indexName) {
+			return this.config.rangeKey as string | undefined;
+		}
+		return this.getIndex()?.rangeKey as string | undefined;
+	}
+
+	/**
+	 * Checks the key values against the key schema of the
+	 * table or of the index selected with `usingIndex()`.
+	 */
+	private validateKeySchema(): void {
+		const indexName = this.indexName;
+		let hashKey = String(this.config.hashKey);
+		let rangeKey = this.getActiveRangeKey();
+		let target = `table '${this.config.tableName}'`;
+		let toError = (message: string): Error => new ValidationError(message);
+
+		if (indexName) {
+			const gsi = this.config.globalSecondaryIndexes?.[indexName];
+			hashKey = gsi ? String(gsi.hashKey) : hashKey;
+			rangeKey = this.getIndex()?.rangeKey as string | undefined;
+			target = `index '${indexName}'`;
+			toError = (message) => new GSIValidationError(message, indexName);
+		}
+
+		const providedKeys = Object.entries(this.keyValues)
+			.filter(([, value]) => value !== undefined)
+			.map(([field]) => field);
+
+		if (!providedKeys.includes(hashKey)) {
+			throw toError(`Query on ${target} requires its hash key '${hashKey}'`);
+		}
+		const invalidKey = providedKeys.find(
+			(field) => field !== hashKey && field !== rangeKey,
+		);
+		if (invalidKey) {
+			throw toError(
+				`'${invalidKey}' is not a key attribute of ${target}, use filter() for non-key attributes`,
+			);
+		}
+	}
+
+	private assertRangeKeyCondition(fieldName: string, isNew = true): void {
+		const target = this.indexName
+			? `index '${this.indexName}'`
+			: `table '${this.config.tableName}'`;
+		const rangeKey = this.getActiveRangeKey();
+
+		if (!rangeKey) {
+			throw new ValidationError(
+				`where() requires a range key, but ${target} has none`,
+			);
+		}
+		if (fieldName !== rangeKey) {
+			throw new ValidationError(
+				`where() only accepts the range key '${rangeKey}' of ${target}, got '${fieldName}'`,
+			);
+		}
+		if (
+			isNew &&
+			(this.keyConditions.length > 0 ||
+				this.keyValues[rangeKey as keyof z.infer<TSchema>] !== undefined)
+		) {
+			throw new ValidationError(
+				`Only one condition on range key '${rangeKey}' is allowed per query`,
+			);
+		}
+	}
+
 	/**
 	 * Returns all currently used value keys from both key conditions and filter expressions.
 	 *
@@ -315,7 +388,7 @@ export class QueryBuilder<
 	 * // Next condition will avoid these keys and use :status_0, :status_1, etc.
 	 * ```
 	 */
-	private getExistingValueKeys(): string[] {
+	protected getExistingValueKeys(): string[] {
 		const keyExpr = QueryExpressions.buildExpression(this.keyConditions);
 		const filterExpr = QueryExpressions.buildExpression(this.filterConditions);
 
@@ -324,32 +397,4 @@ export class QueryBuilder<
 			...Object.keys(filterExpr.attributeValues),
 		];
 	}
-
-	private isStringField(fieldName: SchemaKeys<TSchema>): boolean {
-		try {
-			const schemaShape = this.config.schema.shape;
-			const field = schemaShape[fieldName as keyof typeof schemaShape];
-
-			if (!field || typeof field._def !== "object") {
-				return false;
-			}
-
-			return field._def.typeName === "ZodString";
-		} catch {
-			return false;
-		}
-	}
-
-	private validateAndTransform(item: any): z.infer<TSchema> {
-		try {
-			return this.config.schema.parse(item);
-		} catch (error) {
-			if (error instanceof z.ZodError) {
-				throw new Error(
-					`Validation failed: ${error.issues.map((i) => i.message).join(", ")}`,
-				);
-			}
-			throw error;
-		}
-	}
 }
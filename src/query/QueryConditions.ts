@@ -1,15 +1,25 @@
 import type { z } from "zod";
 import type {
+	AttributeType,
 	ConditionExpression,
 	ConditionOperators,
 	FilterOperators,
 	SchemaKeys,
+	SchemaPath,
+	SchemaPathValue,
+	SizeableValue,
 } from "../types/Query.js";
+import type { AttributeRef } from "./AttributeRef.js";
 import { QueryExpressions } from "./QueryExpressions.js";
 
+type ComparisonOperand<
+	TSchema extends z.ZodObject<any>,
+	TField extends SchemaKeys<TSchema> | SchemaPath<TSchema>,
+> = SchemaPathValue<TSchema, TField> | AttributeRef<SchemaPath<TSchema>>;
+
 export class QueryConditions<
 	TSchema extends z.ZodObject<any>,
-	TField extends SchemaKeys<TSchema>,
+	TField extends SchemaKeys<TSchema> | SchemaPath<TSchema>,
 	TBuilder,
 > {
 	constructor(
@@ -20,7 +30,7 @@ export class QueryConditions<
 		protected readonly existingValueKeys: string[] = [],
 	) {}
 
-	equals(value: z.infer<TSchema>[TField]): TBuilder {
+	equals(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
 			"=",
@@ -30,11 +40,11 @@ export class QueryConditions<
 		return this.addCondition(condition);
 	}
 
-	eq(value: z.infer<TSchema>[TField]): TBuilder {
+	eq(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		return this.equals(value);
 	}
 
-	ne(value: z.infer<TSchema>[TField]): TBuilder {
+	ne(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
 			"<>",
@@ -44,70 +54,70 @@ export class QueryConditions<
 		return this.addCondition(condition);
 	}
 
-	lt(value: z.infer<TSchema>[TField]): TBuilder {
+	lt(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
 			"<",
-			value,
+			value as string | number,
 			this.existingValueKeys,
 		);
 		return this.addCondition(condition);
 	}
 
-	lte(value: z.infer<TSchema>[TField]): TBuilder {
+	lte(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
 			"<=",
-			value,
+			value as string | number,
 			this.existingValueKeys,
 		);
 		return this.addCondition(condition);
 	}
 
-	gt(value: z.infer<TSchema>[TField]): TBuilder {
+	gt(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
 			">",
-			value,
+			value as string | number,
 			this.existingValueKeys,
 		);
 		return this.addCondition(condition);
 	}
 
-	gte(value: z.infer<TSchema>[TField]): TBuilder {
+	gte(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
 			">=",
-			value,
+			value as string | number,
 			this.existingValueKeys,
 		);
 		return this.addCondition(condition);
 	}
 
 	// Convenience aliases
-	greaterThan(value: z.infer<TSchema>[TField]): TBuilder {
+	greaterThan(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		return this.gt(value);
 	}
 
-	greaterThanOrEqualTo(value: z.infer<TSchema>[TField]): TBuilder {
+	greaterThanOrEqualTo(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		return this.gte(value);
 	}
 
-	lessThan(value: z.infer<TSchema>[TField]): TBuilder {
+	lessThan(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		return this.lt(value);
 	}
 
-	lessThanOrEqualTo(value: z.infer<TSchema>[TField]): TBuilder {
+	lessThanOrEqualTo(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		return this.lte(value);
 	}
 
-	notEqual(value: z.infer<TSchema>[TField]): TBuilder {
+	notEqual(value: SchemaPathValue<TSchema, TField>): TBuilder {
 		return this.ne(value);
 	}
 
 	between(
-		min: z.infer<TSchema>[TField],
-		max: z.infer<TSchema>[TField],
+		min: SchemaPathValue<TSchema, TField>,
+		max: SchemaPathValue<TSchema, TField>,
 	): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
@@ -118,7 +128,7 @@ export class QueryConditions<
 		return this.addCondition(condition);
 	}
 
-	in(values: z.infer<TSchema>[TField][]): TBuilder {
+	in(values: SchemaPathValue<TSchema, TField>[]): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
 			"in",
@@ -149,55 +159,172 @@ export class QueryConditions<
 	}
 }
 
-export class StringQueryConditions<
+/**
+ * Range key conditions for `QueryBuilder.where()`. Only the operators that
+ * DynamoDB accepts in a KeyConditionExpression are available.
+ */
+export class KeyConditions<
 	TSchema extends z.ZodObject<any>,
 	TField extends SchemaKeys<TSchema>,
 	TBuilder,
-> extends QueryConditions<TSchema, TField, TBuilder> {
-	beginsWith(prefix: string): TBuilder {
+> {
+	constructor(
+		protected readonly fieldName: string,
+		protected readonly addCondition: (
+			condition: ConditionExpression,
+		) => TBuilder,
+		protected readonly existingValueKeys: string[] = [],
+	) {}
+
+	equals(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.compare("=", value);
+	}
+
+	eq(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.equals(value);
+	}
+
+	lt(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.compare("<", value);
+	}
+
+	lte(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.compare("<=", value);
+	}
+
+	gt(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.compare(">", value);
+	}
+
+	gte(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.compare(">=", value);
+	}
+
+	// Convenience aliases
+	greaterThan(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.gt(value);
+	}
+
+	greaterThanOrEqualTo(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.gte(value);
+	}
+
+	lessThan(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.lt(value);
+	}
+
+	lessThanOrEqualTo(value: SchemaPathValue<TSchema, TField>): TBuilder {
+		return this.lte(value);
+	}
+
+	between(
+		min: SchemaPathValue<TSchema, TField>,
+		max: SchemaPathValue<TSchema, TField>,
+	): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
-			"begins_with",
-			prefix,
+			"between",
+			[min, max],
 			this.existingValueKeys,
 		);
 		return this.addCondition(condition);
 	}
 
-	contains(substring: string): TBuilder {
+	protected compare(
+		operator: "=" | "<" | "<=" | ">" | ">=",
+		value: SchemaPathValue<TSchema, TField>,
+	): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
-			"contains",
-			substring,
+			operator,
+			value as string | number,
 			this.existingValueKeys,
 		);
 		return this.addCondition(condition);
 	}
+}
 
-	notContains(substring: string): TBuilder {
+export class StringKeyConditions<
+	TSchema extends z.ZodObject<any>,
+	TField extends SchemaKeys<TSchema>,
+	TBuilder,
+> extends KeyConditions<TSchema, TField, TBuilder> {
+	beginsWith(prefix: string): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
-			"not contains",
-			substring,
+			"begins_with",
+			prefix,
 			this.existingValueKeys,
 		);
 		return this.addCondition(condition);
 	}
-
-	constructor(
-		fieldName: string,
-		addCondition: (condition: ConditionExpression) => TBuilder,
-		existingValueKeys: string[] = [],
-	) {
-		super(fieldName, addCondition, existingValueKeys);
-	}
 }
 
 export class FilterConditions<
 	TSchema extends z.ZodObject<any>,
-	TField extends SchemaKeys<TSchema>,
+	TField extends SchemaKeys<TSchema> | SchemaPath<TSchema>,
 	TBuilder,
 > extends QueryConditions<TSchema, TField, TBuilder> {
+	// Comparisons also accept `ref('otherField')`, which key conditions do not
+	equals(value: ComparisonOperand<TSchema, TField>): TBuilder {
+		return super.equals(value as SchemaPathValue<TSchema, TField>);
+	}
+
+	eq(value: ComparisonOperand<TSchema, TField>): TBuilder {
+		return this.equals(value);
+	}
+
+	ne(value: ComparisonOperand<TSchema, TField>): TBuilder {
+		return super.ne(value as SchemaPathValue<TSchema, TField>);
+	}
+
+	lt(value: ComparisonOperand<TSchema, TField>): TBuilder {
+		return super.lt(value as SchemaPathValue<TSchema, TField>);
+	}
+
+	lte(value: ComparisonOperand<TSchema, TField>): TBuilder {
+		return super.lte(value as SchemaPathValue<TSchema, TField>);
+	}
+
+	gt(value: ComparisonOperand<TSchema, TField>): TBuilder {
+		return super.gt(value as SchemaPathValue<TSchema, TField>);
+	}
+
+	gte(value: ComparisonOperand<TSchema, TField>): TBuilder {
+		return super.gte(value as SchemaPathValue<TSchema, TField>);
+	}
+
+	/**
+	 * Compares the attribute's size: string length, number of bytes, or
+	 * number of list, set or map elements.
+	 * @example
+	 * .filter('tags').size().gt(3) // size(#tags) > :tags_size
+	 */
+	size(): NonNullable<SchemaPathValue<TSchema, TField>> extends SizeableValue
+		? SizeConditions<TBuilder>
+		: never {
+		return new SizeConditions(
+			this.fieldName,
+			this.addCondition,
+			this.existingValueKeys,
+		) as any;
+	}
+
+	/**
+	 * Matches items whose attribute is stored as the given DynamoDB type.
+	 * @example
+	 * .filter('tags').isType('L') // attribute_type(#tags, :tags)
+	 */
+	isType(type: AttributeType): TBuilder {
+		const condition = QueryExpressions.createCondition(
+			this.fieldName,
+			"attribute_type",
+			type,
+			this.existingValueKeys,
+		);
+		return this.addCondition(condition);
+	}
+
 	contains(value: any): TBuilder {
 		const condition = QueryExpressions.createCondition(
 			this.fieldName,
@@ -229,7 +356,7 @@ export class FilterConditions<
 
 export class StringFilterConditions<
 	TSchema extends z.ZodObject<any>,
-	TField extends SchemaKeys<TSchema>,
+	TField extends SchemaKeys<TSchema> | SchemaPath<TSchema>,
 	TBuilder,
 > extends FilterConditions<TSchema, TField, TBuilder> {
 	beginsWith(prefix: string): TBuilder {
@@ -250,3 +377,54 @@ export class StringFilterConditions<
 		super(fieldName, addCondition, existingValueKeys);
 	}
 }
+
+export class SizeConditions<TBuilder> {
+	constructor(
+		protected readonly fieldName: string,
+		protected readonly addCondition: (
+			condition: ConditionExpression,
+		) => TBuilder,
+		protected readonly existingValueKeys: string[] = [],
+	) {}
+
+	eq(value: number): TBuilder {
+		return this.compare("=", value);
+	}
+
+	ne(value: number): TBuilder {
+		return this.compare("<>", value);
+	}
+
+	lt(value: number): TBuilder {
+		return this.compare("<", value);
+	}
+
+	lte(value: number): TBuilder {
+		return this.compare("<=", value);
+	}
+
+	gt(value: number): TBuilder {
+		return this.compare(">", value);
+	}
+
+	gte(value: number): TBuilder {
+		return this.compare(">=", value);
+	}
+
+	between(min: number, max: number): TBuilder {
+		return this.compare("between", [min, max]);
+	}
+
+	private compare(
+		operator: Parameters<typeof QueryExpressions.createSizeCondition>[1],
+		value: number | [number, number],
+	): TBuilder {
+		const condition = QueryExpressions.createSizeCondition(
+			this.fieldName,
+			operator,
+			value,
+			this.existingValueKeys,
+		);
+		return this.addCondition(condition);
+	}
+}
@@ -1,8 +1,11 @@
 import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
 import type {
+	AttributeType,
 	ConditionExpression,
 	DynamoDBExpression,
 } from "../types/Query.js";
+import { buildPathExpression, valueKeyBase } from "../utils/paths.js";
+import { AttributeRef } from "./AttributeRef.js";
 
 type ComparisonOperator =
 	| "="
@@ -24,6 +27,7 @@ type StringOperator =
 	| "begins_with"
 	| "not contains";
 type ArrayOperator = "in" | "between";
+type TypeOperator = "attribute_type";
 type ExistenceOperator =
 	| "exists"
 	| "notExists"
@@ -34,21 +38,22 @@ export type QueryOperator =
 	| ComparisonOperator
 	| StringOperator
 	| ArrayOperator
-	| ExistenceOperator;
+	| ExistenceOperator
+	| TypeOperator;
 
 type OperatorValueMap = {
-	"=": NativeAttributeValue;
-	"!=": NativeAttributeValue;
-	ne: NativeAttributeValue;
-	"<": string | number;
-	"<=": string | number;
-	lte: string | number;
-	">": string | number;
-	">=": string | number;
-	gte: string | number;
-	lt: string | number;
-	gt: string | number;
-	"<>": NativeAttributeValue;
+	"=": NativeAttributeValue | AttributeRef;
+	"!=": NativeAttributeValue | AttributeRef;
+	ne: NativeAttributeValue | AttributeRef;
+	"<": string | number | AttributeRef;
+	"<=": string | number | AttributeRef;
+	lte: string | number | AttributeRef;
+	">": string | number | AttributeRef;
+	">=": string | number | AttributeRef;
+	gte: string | number | AttributeRef;
+	lt: string | number | AttributeRef;
+	gt: string | number | AttributeRef;
+	"<>": NativeAttributeValue | AttributeRef;
 	beginsWith: string;
 	contains: string;
 	notContains: string;
@@ -60,6 +65,25 @@ type OperatorValueMap = {
 	notExists: undefined;
 	attribute_exists: undefined;
 	attribute_not_exists: undefined;
+	attribute_type: AttributeType;
+};
+
+type SizeOperator = "=" | "<>" | "<" | "<=" | ">" | ">=" | "between";
+
+// Comparison operators that also accept an `AttributeRef` operand
+const COMPARISON_SYMBOLS: Record<string, string> = {
+	"=": "=",
+	equals: "=",
+	"<>": "<>",
+	ne: "<>",
+	"<": "<",
+	lt: "<",
+	"<=": "<=",
+	lte: "<=",
+	">": ">",
+	gt: ">",
+	">=": ">=",
+	gte: ">=",
 };
 
 // biome-ignore lint/complexity/noStaticOnlyClass: <explanation>
@@ -83,16 +107,60 @@ export class QueryExpressions {
 		};
 	}
 
+	/**
+	 * Combines conditions into one parenthesized group joined by AND or OR.
+	 * @example
+	 * // [#status = :status, #role = :role] with "OR"
+	 * // => '(#status = :status) OR (#role = :role)'
+	 */
+	static groupConditions(
+		conditions: ConditionExpression[],
+		operator: "AND" | "OR",
+	): ConditionExpression {
+		if (conditions.length === 0) {
+			throw new Error(`${operator} group requires at least one condition`);
+		}
+		if (conditions.length === 1) {
+			return conditions[0];
+		}
+
+		return {
+			expression: conditions
+				.map((c) => `(${c.expression})`)
+				.join(` ${operator} `),
+			attributeNames: QueryExpressions.mergeAttributeNames(conditions),
+			attributeValues: QueryExpressions.mergeAttributeValues(conditions),
+		};
+	}
+
+	static negateCondition(condition: ConditionExpression): ConditionExpression {
+		return {
+			...condition,
+			expression: `NOT (${condition.expression})`,
+		};
+	}
+
 	static createCondition<T extends QueryOperator>(
 		key: string,
 		operator: T,
 		value: OperatorValueMap[T],
 		existingValueKeys: string[] = [],
 	): ConditionExpression {
-		const haskKey = `#${key}` as const;
+		if ((value as unknown) instanceof AttributeRef) {
+			return QueryExpressions.createAttributeComparison(
+				key,
+				operator,
+				value as AttributeRef,
+			);
+		}
+
+		/** "#address.#city" */
+		const path = buildPathExpression(key);
+		const haskKey = path.expression;
+		const valueBase = valueKeyBase(key);
 		/** ":value_0" */
 		const colonValue = QueryExpressions.generateUniqueValueKey(
-			key,
+			valueBase,
 			existingValueKeys,
 		);
 
@@ -101,7 +169,7 @@ export class QueryExpressions {
 			case "equals":
 				return {
 					expression: `${haskKey} = ${colonValue}`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -111,7 +179,7 @@ export class QueryExpressions {
 			case "ne":
 				return {
 					expression: `${haskKey} <> ${colonValue}`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -121,7 +189,7 @@ export class QueryExpressions {
 			case "lt":
 				return {
 					expression: `${haskKey} < ${colonValue}`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -131,7 +199,7 @@ export class QueryExpressions {
 			case "lte":
 				return {
 					expression: `${haskKey} <= ${colonValue}`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -141,7 +209,7 @@ export class QueryExpressions {
 			case "gt":
 				return {
 					expression: `${haskKey} > ${colonValue}`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -151,7 +219,7 @@ export class QueryExpressions {
 			case "gte":
 				return {
 					expression: `${haskKey} >= ${colonValue}`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -167,17 +235,17 @@ export class QueryExpressions {
 				const [min, max] = value as [any, any];
 				// biome-ignore lint/correctness/noSwitchDeclarations: <explanation>
 				const attributeValue1 = QueryExpressions.generateUniqueValueKey(
-					`${key}_min`,
+					`${valueBase}_min`,
 					existingValueKeys,
 				);
 				// biome-ignore lint/correctness/noSwitchDeclarations: <explanation>
 				const attributeValue2 = QueryExpressions.generateUniqueValueKey(
-					`${key}_max`,
+					`${valueBase}_max`,
 					existingValueKeys,
 				);
 				return {
 					expression: `${haskKey} BETWEEN ${attributeValue1} AND ${attributeValue2}`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[attributeValue1]: QueryExpressions.formatValue(min),
 						[attributeValue2]: QueryExpressions.formatValue(max),
@@ -188,7 +256,7 @@ export class QueryExpressions {
 			case "beginswith":
 				return {
 					expression: `begins_with(${haskKey}, ${colonValue})`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -197,7 +265,7 @@ export class QueryExpressions {
 			case "contains":
 				return {
 					expression: `contains(${haskKey}, ${colonValue})`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -207,7 +275,7 @@ export class QueryExpressions {
 			case "notcontains":
 				return {
 					expression: `NOT contains(${haskKey}, ${colonValue})`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {
 						[colonValue]: QueryExpressions.formatValue(value),
 					},
@@ -220,7 +288,7 @@ export class QueryExpressions {
 				// biome-ignore lint/correctness/noSwitchDeclarations: <explanation>
 				const valueKeys = value.map((_: any, index: number) =>
 					QueryExpressions.generateUniqueValueKey(
-						`${key}_${index}`,
+						`${valueBase}_${index}`,
 						existingValueKeys,
 					),
 				);
@@ -231,7 +299,7 @@ export class QueryExpressions {
 				});
 				return {
 					expression: `${haskKey} IN (${valueKeys.join(", ")})`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues,
 				};
 
@@ -239,7 +307,7 @@ export class QueryExpressions {
 			case "exists":
 				return {
 					expression: `attribute_exists(${haskKey})`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {},
 				};
 
@@ -247,15 +315,96 @@ export class QueryExpressions {
 			case "notexists":
 				return {
 					expression: `attribute_not_exists(${haskKey})`,
-					attributeNames: { [haskKey]: key },
+					attributeNames: path.attributeNames,
 					attributeValues: {},
 				};
 
+			case "attribute_type":
+				return {
+					expression: `attribute_type(${haskKey}, ${colonValue})`,
+					attributeNames: path.attributeNames,
+					attributeValues: { [colonValue]: value },
+				};
+
 			default:
 				throw new Error(`Unsupported operator: ${operator}`);
 		}
 	}
 
+	/**
+	 * Compares an attribute with another attribute of the same item.
+	 * @example
+	 * // ('updatedAt', '>', ref('publishedAt'))
+	 * // => '#updatedAt > #publishedAt'
+	 */
+	static createAttributeComparison(
+		key: string,
+		operator: QueryOperator,
+		other: AttributeRef,
+	): ConditionExpression {
+		const symbol = COMPARISON_SYMBOLS[operator.toLowerCase()];
+		if (!symbol) {
+			throw new Error(
+				`Operator '${operator}' does not support attribute references`,
+			);
+		}
+
+		const left = buildPathExpression(key);
+		const right = buildPathExpression(other.path);
+		return {
+			expression: `${left.expression} ${symbol} ${right.expression}`,
+			attributeNames: { ...left.attributeNames, ...right.attributeNames },
+			attributeValues: {},
+		};
+	}
+
+	/**
+	 * Compares the size of a string, binary, list, set or map attribute.
+	 * @example
+	 * // ('tags', '>', 3) => 'size(#tags) > :tags_size'
+	 */
+	static createSizeCondition(
+		key: string,
+		operator: SizeOperator,
+		value: number | [number, number],
+		existingValueKeys: string[] = [],
+	): ConditionExpression {
+		const path = buildPathExpression(key);
+		const size = `size(${path.expression})`;
+		const valueBase = `${valueKeyBase(key)}_size`;
+
+		if (operator === "between") {
+			if (!Array.isArray(value) || value.length !== 2) {
+				throw new Error(
+					"BETWEEN operator requires an array with exactly 2 values",
+				);
+			}
+			const minKey = QueryExpressions.generateUniqueValueKey(
+				`${valueBase}_min`,
+				existingValueKeys,
+			);
+			const maxKey = QueryExpressions.generateUniqueValueKey(
+				`${valueBase}_max`,
+				existingValueKeys,
+			);
+			return {
+				expression: `${size} BETWEEN ${minKey} AND ${maxKey}`,
+				attributeNames: path.attributeNames,
+				attributeValues: { [minKey]: value[0], [maxKey]: value[1] },
+			};
+		}
+
+		const colonValue = QueryExpressions.generateUniqueValueKey(
+			valueBase,
+			existingValueKeys,
+		);
+		return {
+			expression: `${size} ${operator} ${colonValue}`,
+			attributeNames: path.attributeNames,
+			attributeValues: { [colonValue]: value },
+		};
+	}
+
 	private static mergeAttributeNames(
 		conditions: ConditionExpression[],
 	): Record<string, string> {
@@ -290,7 +439,7 @@ export class QueryExpressions {
 	 * const uniqueKey = QueryExpressions.generateUniqueValueKey(baseName, existingKeys);
 	 * // Returns ':value_3'
 	 */
-	private static generateUniqueValueKey(
+	static generateUniqueValueKey(
 		baseName: string,
 		existingKeys: string[],
 	): string {
@@ -305,9 +454,7 @@ export class QueryExpressions {
 		return candidateKey;
 	}
 
-	private static formatValue(
-		value: NativeAttributeValue,
-	): NativeAttributeValue {
+	static formatValue(value: NativeAttributeValue): NativeAttributeValue {
 		if (value instanceof Date) {
 			return value.toISOString();
 		}
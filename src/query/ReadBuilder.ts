@@ -0,0 +1,899 @@
+import type {
+	DynamoDBDocument,
+	NativeAttributeValue,
+	QueryCommandInput,
+	QueryCommandOutput,
+	ScanCommandInput,
+	ScanCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
+import { z } from "zod";
+import {
+	type DynamoDBErrorContext,
+	GSIValidationError,
+	IndexNotFoundError,
+	ProjectionError,
+	ValidationError,
+} from "../errors/DynamoDBError.js";
+import { mapError } from "../errors/mapError.js";
+import type {
+	GSIConfig,
+	LSIConfig,
+	ModelConfig,
+	RetryPolicy,
+} from "../types/Model.js";
+import type {
+	ConditionExpression,
+	CountResult,
+	EntityReader,
+	ItemLoader,
+	ItemsOptions,
+	KeyedResult,
+	PageOptions,
+	QueryOptions,
+	QueryResult,
+	SchemaKeys,
+	SchemaPath,
+	SchemaPathValue,
+	StreamOptions,
+} from "../types/Query.js";
+import type { ScanOptions } from "../types/Scan.js";
+import { mergeConsumedCapacity } from "../utils/capacity.js";
+import {
+	type CursorContext,
+	decodeCursor,
+	encodeCursor,
+} from "../utils/cursor.js";
+import { entityCondition, getTypeAttribute } from "../utils/entity.js";
+import {
+	DEFAULT_MAX_PAGE_REQUESTS,
+	fillPage,
+	readAhead,
+} from "../utils/pagination.js";
+import {
+	buildProjectionExpression,
+	parsePath,
+	pickSchema,
+	resolvePathSchema,
+} from "../utils/paths.js";
+import { Backoff, withRetry } from "../utils/retry.js";
+import {
+	type ConditionFactory,
+	createConditionFactory,
+} from "./ConditionFactory.js";
+import { ItemIterator } from "./ItemIterator.js";
+import { FilterConditions, StringFilterConditions } from "./QueryConditions.js";
+import { QueryExpressions } from "./QueryExpressions.js";
+
+type ReadRequest = QueryCommandInput | ScanCommandInput;
+
+/**
+ * Filters, index selection, projection, hydration and pagination shared by
+ * `QueryBuilder` and `ScanBuilder`. Subclasses build the operation-specific
+ * part of the request and send it.
+ */
+export abstract class ReadBuilder<
+	TSchema extends z.ZodObject<any>,
+	TConfig extends ModelConfig<TSchema>,
+	TItem,
+	TRequest extends ReadRequest,
+	TKey = Record<string, NativeAttributeValue>,
+> {
+	protected filterConditions: ConditionExpression[] = [];
+	protected indexName?: string;
+	protected isHydrate = false;
+	protected selectedAttributes?: string[];
+	protected startCursor?: string;
+	private isLoadAll = false;
+	private retryPolicy?: RetryPolicy;
+	// Top-level attributes referenced by filters, checked against the projection
+	private referencedFields = new Set<string>();
+
+	protected abstract readonly operation: "Query" | "Scan";
+	protected abstract readonly options: QueryOptions | ScanOptions;
+
+	constructor(
+		protected readonly client: DynamoDBDocument,
+		protected readonly config: TConfig,
+		private readonly loadItems?: ItemLoader<z.infer<TSchema>, TKey>,
+		protected readonly reader?: EntityReader<TItem>,
+	) {}
+
+	/**
+	 * Request with the table name and the operation-specific parameters, such
+	 * as key conditions or segments, to which the shared options are added.
+	 */
+	protected abstract createRequest(): TRequest;
+
+	protected abstract send(
+		request: TRequest,
+		abortSignal?: AbortSignal,
+	): Promise<QueryCommandOutput | ScanCommandOutput>;
+
+	/**
+	 * Request parameters a cursor is bound to, besides table and index.
+	 */
+	protected abstract cursorScope(request: TRequest): unknown[];
+
+	filter<TField extends SchemaPath<TSchema>>(
+		fieldName: TField,
+	): SchemaPathValue<TSchema, TField> extends string
+		? StringFilterConditions<TSchema, TField, this>
+		: FilterConditions<TSchema, TField, this> {
+		this.referenceField(fieldName);
+		const existingKeys = this.getExistingValueKeys();
+		const addCondition = (condition: ConditionExpression) => {
+			this.filterConditions.push(condition);
+			return this;
+		};
+
+		if (this.isStringField(fieldName)) {
+			return new StringFilterConditions(
+				String(fieldName),
+				addCondition,
+				existingKeys,
+			) as any;
+		}
+
+		return new FilterConditions(
+			String(fieldName),
+			addCondition,
+			existingKeys,
+		) as any;
+	}
+
+	/**
+	 * Adds an OR group to the FilterExpression; an item matches if any of the
+	 * returned conditions match.
+	 * @example
+	 * .filterAny((f) => [f('status').eq('active'), f('role').eq('admin')])
+	 */
+	filterAny(
+		build: (f: ConditionFactory<TSchema>) => ConditionExpression[],
+	): this {
+		const f = createConditionFactory(
+			this.config.schema,
+			this.getExistingValueKeys(),
+			(fieldName) => this.referenceField(fieldName),
+		);
+		this.filterConditions.push(
+			QueryExpressions.groupConditions(build(f), "OR"),
+		);
+		return this;
+	}
+
+	/**
+	 * Adds a negated condition to the FilterExpression. Several returned
+	 * conditions are ANDed before negation: `NOT (a AND b)`.
+	 */
+	not(
+		build: (
+			f: ConditionFactory<TSchema>,
+		) => ConditionExpression | ConditionExpression[],
+	): this {
+		const f = createConditionFactory(
+			this.config.schema,
+			this.getExistingValueKeys(),
+			(fieldName) => this.referenceField(fieldName),
+		);
+		this.filterConditions.push(f.not(build(f)));
+		return this;
+	}
+
+	/**
+	 * Strongly consistent reads are only supported on the table and local
+	 * secondary indexes; a GSI read fails validation before it is sent.
+	 */
+	consistentRead(enabled = true): this {
+		this.options.ConsistentRead = enabled;
+		return this;
+	}
+
+	limit(count: number): this {
+		if (count <= 0) {
+			throw new ValidationError("Limit must be greater than 0");
+		}
+		this.options.Limit = count;
+		return this;
+	}
+
+	startKey(key: Record<string, NativeAttributeValue>): this {
+		this.options.ExclusiveStartKey = key;
+		this.startCursor = undefined;
+		return this;
+	}
+
+	/**
+	 * Continues after a cursor from `cursor()` or a result's `cursor`. The
+	 * cursor is verified when the request runs and throws `InvalidCursorError`
+	 * if it was tampered with or created for a different table, index, query
+	 * or scan.
+	 * @example
+	 * const page = await Post.query({ userId }).after(cursor).limit(20).execWithPagination();
+	 * reply({ items: page.items, next: page.cursor });
+	 */
+	after(cursor: string): this {
+		this.startCursor = cursor;
+		this.options.ExclusiveStartKey = undefined;
+		return this;
+	}
+
+	/**
+	 * Turns a `lastEvaluatedKey` of this query or scan into an opaque,
+	 * URL-safe cursor signed with the model's `cursorSecret`.
+	 */
+	cursor(key: Record<string, NativeAttributeValue>): string {
+		return encodeCursor(key, this.cursorContext(this.buildRequest(true)));
+	}
+
+	returnConsumedCapacity(level: "INDEXES" | "TOTAL" | "NONE" = "NONE"): this {
+		this.options.ReturnConsumedCapacity = level;
+		return this;
+	}
+
+	/**
+	 * Overrides the model's retry policy for throttled and internal errors
+	 * on this builder's requests.
+	 */
+	retry(policy: RetryPolicy): this {
+		this.retryPolicy = policy;
+		return this;
+	}
+
+	loadAll(): this {
+		this.isLoadAll = true;
+		return this;
+	}
+
+	async exec(): Promise<TItem[]> {
+		if (this.isLoadAll) {
+			return this.execLoadAll();
+		}
+
+		const result = await this.execWithPagination();
+		return result.items;
+	}
+
+	async execWithPagination(
+		lastEvaluatedKey?: Record<string, any>,
+	): Promise<QueryResult<TItem>> {
+		const { itemKeys, ...result } = await this.fetchPage(lastEvaluatedKey);
+		return result;
+	}
+
+	/**
+	 * Iterates single items across pages. Pages are fetched on demand and
+	 * fetching stops once `max` items have been yielded; `limit()` still sets
+	 * the page size.
+	 * @example
+	 * for await (const order of Order.query({ customerId }).items({ max: 500 })) {
+	 *   await exportOrder(order);
+	 * }
+	 */
+	items(options: ItemsOptions = {}): ItemIterator<TItem> {
+		return new ItemIterator(
+			(startKey) => this.fetchPage(startKey),
+			this.options.ExclusiveStartKey,
+			options,
+		);
+	}
+
+	/**
+	 * Returns up to `size` matching items, fetching more pages while filters
+	 * leave the page short, but making at most `maxRequests` requests
+	 * (default 10). `lastEvaluatedKey` and `cursor` point right after the
+	 * last returned item, so matches beyond `size` are not skipped.
+	 * @example
+	 * const page = await Order.query({ customerId })
+	 *   .filter('status').eq('open')
+	 *   .after(cursor)
+	 *   .page(20);
+	 */
+	async page(
+		size: number,
+		options: PageOptions = {},
+	): Promise<QueryResult<TItem>> {
+		const maxRequests = options.maxRequests ?? DEFAULT_MAX_PAGE_REQUESTS;
+		if (!Number.isInteger(size) || size < 1) {
+			throw new ValidationError("Page size must be a positive integer");
+		}
+		if (!Number.isInteger(maxRequests) || maxRequests < 1) {
+			throw new ValidationError("maxRequests must be a positive integer");
+		}
+
+		const page = await fillPage(
+			(startKey, missing) =>
+				this.fetchPage(startKey, {
+					Limit: this.pageLimit(missing),
+				} as Partial<TRequest>),
+			size,
+			this.options.ExclusiveStartKey,
+			maxRequests,
+		);
+
+		return {
+			items: page.items,
+			lastEvaluatedKey: page.lastEvaluatedKey,
+			count: page.items.length,
+			scannedCount: page.scannedCount,
+			consumedCapacity: page.consumedCapacity,
+			cursor:
+				page.lastEvaluatedKey && this.config.cursorSecret
+					? encodeCursor(
+							page.lastEvaluatedKey,
+							this.cursorContext(this.buildRequest(true)),
+						)
+					: undefined,
+		};
+	}
+
+	/**
+	 * Yields the results page by page. With `prefetch: n`, up to `n` following
+	 * pages are requested or buffered while the consumer processes the
+	 * current one; breaking out of the loop aborts the pending request.
+	 * @example
+	 * for await (const items of Order.query({ customerId }).stream({ prefetch: 2 })) {
+	 *   await exportItems(items);
+	 * }
+	 */
+	async *stream(options: StreamOptions = {}): AsyncIterableIterator<TItem[]> {
+		const prefetch = options.prefetch ?? 0;
+		if (!Number.isInteger(prefetch) || prefetch < 0) {
+			throw new ValidationError("prefetch must be a non-negative integer");
+		}
+		if (prefetch > 0) {
+			yield* readAhead(
+				(startKey, abortSignal) =>
+					this.fetchPage(startKey, {}, abortSignal).then(
+						({ itemKeys, ...result }) => result,
+					),
+				this.options.ExclusiveStartKey,
+				prefetch,
+			);
+			return;
+		}
+
+		let lastEvaluatedKey = this.options.ExclusiveStartKey;
+
+		do {
+			const result = await this.execWithPagination(lastEvaluatedKey);
+
+			yield result.items;
+
+			lastEvaluatedKey = result.lastEvaluatedKey;
+		} while (lastEvaluatedKey);
+	}
+
+	/**
+	 * Counts the matching items with `Select: 'COUNT'`, following
+	 * `lastEvaluatedKey` through every page without reading any items.
+	 * @example
+	 * const { count } = await Order.query({ customerId }).filter('status').eq('open').count();
+	 */
+	async count(): Promise<CountResult> {
+		const request = this.buildRequest(true);
+		this.validateEntityCount();
+		const total: CountResult = { count: 0, scannedCount: 0 };
+
+		do {
+			let response: QueryCommandOutput | ScanCommandOutput;
+			try {
+				response = await withRetry(() => this.send(request), this.backoff());
+			} catch (error) {
+				throw mapError(error, this.errorContext());
+			}
+
+			total.count += response.Count || 0;
+			total.scannedCount += response.ScannedCount || 0;
+			total.consumedCapacity = mergeConsumedCapacity(
+				total.consumedCapacity,
+				response.ConsumedCapacity,
+			);
+			request.ExclusiveStartKey = response.LastEvaluatedKey;
+		} while (request.ExclusiveStartKey);
+
+		return total;
+	}
+
+	/**
+	 * Selects a secondary index and checks that it exists.
+	 */
+	protected selectIndex(indexName: string): void {
+		this.indexName = indexName;
+		this.validateIndex();
+		this.validateProjection();
+	}
+
+	protected enableHydrate(): void {
+		if (!this.loadItems) {
+			throw new ValidationError(
+				`hydrate() requires a ${this.operation.toLowerCase()} created through Model.${this.operation.toLowerCase()}()`,
+			);
+		}
+		if (this.selectedAttributes) {
+			throw new ValidationError("select() must be called after hydrate()");
+		}
+		this.isHydrate = true;
+	}
+
+	protected selectAttributes(attributes: readonly string[]): void {
+		if (this.reader) {
+			throw new ValidationError(
+				`select() is not supported on table ${this.operation === "Query" ? "queries" : "scans"}`,
+			);
+		}
+		pickSchema(this.config.schema, attributes);
+		this.selectedAttributes = [...new Set<string>(attributes)];
+		this.validateProjection();
+	}
+
+	/**
+	 * Page size for requests that fill a page: exactly the missing items,
+	 * unless `limit()` was set or filters may discard some of them.
+	 */
+	protected pageLimit(missing: number): number | undefined {
+		if (this.options.Limit !== undefined) {
+			return this.options.Limit;
+		}
+		return this.getFilterConditions().length === 0 ? missing : undefined;
+	}
+
+	protected fetchPage(
+		startKey?: Record<string, NativeAttributeValue>,
+		overrides: Partial<TRequest> = {},
+		abortSignal?: AbortSignal,
+	): Promise<KeyedResult<TItem>> {
+		const request = { ...this.buildRequest(), ...overrides };
+
+		if (startKey) {
+			request.ExclusiveStartKey = startKey;
+		}
+
+		return this.executeRequest(request, abortSignal);
+	}
+
+	protected async executeRequest(
+		request: TRequest,
+		abortSignal?: AbortSignal,
+	): Promise<KeyedResult<TItem>> {
+		let result: KeyedResult<TItem>;
+		try {
+			const response = await withRetry(
+				() => this.send(request, abortSignal),
+				this.backoff(),
+			);
+			const rawItems = response.Items || [];
+
+			result = {
+				items: rawItems.map((item) => this.validateAndTransform(item)),
+				itemKeys: rawItems.map((item) => this.extractKey(item)),
+				lastEvaluatedKey: response.LastEvaluatedKey,
+				count: response.Count || 0,
+				scannedCount: response.ScannedCount || 0,
+				consumedCapacity: response.ConsumedCapacity,
+			};
+		} catch (error) {
+			throw mapError(error, this.errorContext());
+		}
+
+		if (result.lastEvaluatedKey && this.config.cursorSecret) {
+			result.cursor = encodeCursor(
+				result.lastEvaluatedKey,
+				this.cursorContext(request),
+			);
+		}
+		if (this.isHydrating()) {
+			const loaded = await this.hydrateItems(result.itemKeys);
+			result.itemKeys = result.itemKeys.filter((_, i) => loaded[i] !== null);
+			result.items = loaded.filter((item) => item !== null);
+		}
+		return result;
+	}
+
+	protected buildRequest(countOnly = false): TRequest {
+		this.validateIndex();
+		this.validateProjection();
+		this.validateEntityIndex();
+
+		const request: ReadRequest = this.createRequest();
+
+		if (this.options.ConsistentRead !== undefined) {
+			request.ConsistentRead = this.options.ConsistentRead;
+		}
+		if (this.options.Limit !== undefined) {
+			request.Limit = this.options.Limit;
+		}
+		if (this.options.ExclusiveStartKey !== undefined) {
+			request.ExclusiveStartKey = this.options.ExclusiveStartKey;
+		}
+		if (this.options.ReturnConsumedCapacity !== undefined) {
+			request.ReturnConsumedCapacity = this.options.ReturnConsumedCapacity;
+		}
+		if (this.indexName) {
+			request.IndexName = this.indexName;
+		}
+
+		if (countOnly) {
+			request.Select = "COUNT";
+		} else if (this.selectedAttributes && !this.isHydrating()) {
+			// Keys are read too, so items() can resume after any item
+			const projection = buildProjectionExpression([
+				...new Set([...this.selectedAttributes, ...this.getKeyAttributes()]),
+			]);
+			request.ProjectionExpression = projection.expression;
+			request.ExpressionAttributeNames = {
+				...request.ExpressionAttributeNames,
+				...projection.attributeNames,
+			};
+		}
+
+		const filterConditions = this.getFilterConditions();
+		if (filterConditions.length > 0) {
+			const filterExpression =
+				QueryExpressions.buildExpression(filterConditions);
+			if (filterExpression.expression) {
+				request.FilterExpression = filterExpression.expression;
+
+				if (Object.keys(filterExpression.attributeNames).length > 0) {
+					request.ExpressionAttributeNames = {
+						...request.ExpressionAttributeNames,
+						...filterExpression.attributeNames,
+					};
+				}
+
+				if (Object.keys(filterExpression.attributeValues).length > 0) {
+					request.ExpressionAttributeValues = {
+						...request.ExpressionAttributeValues,
+						...filterExpression.attributeValues,
+					};
+				}
+			}
+		}
+
+		if (this.startCursor && !request.ExclusiveStartKey) {
+			request.ExclusiveStartKey = decodeCursor(
+				this.startCursor,
+				this.cursorContext(request as TRequest),
+			);
+		}
+		return request as TRequest;
+	}
+
+	/**
+	 * Binds cursors to the table, index and filter conditions of `request`
+	 * plus its operation-specific scope, leaving out page size, direction and
+	 * projection.
+	 */
+	protected cursorContext(request: TRequest): CursorContext {
+		return {
+			secret: this.config.cursorSecret,
+			scope: JSON.stringify([
+				request.TableName,
+				request.IndexName ?? null,
+				...this.cursorScope(request),
+				request.FilterExpression ?? null,
+				request.ExpressionAttributeValues ?? {},
+			]),
+			keyAttributes: this.getKeyAttributes(),
+		};
+	}
+
+	/**
+	 * Configuration of the index selected with `usingIndex()`.
+	 */
+	protected getIndex(): GSIConfig<TSchema> | LSIConfig<TSchema> | undefined {
+		if (!this.indexName) {
+			return undefined;
+		}
+		return (
+			this.config.globalSecondaryIndexes?.[this.indexName] ??
+			this.config.localSecondaryIndexes?.[this.indexName]
+		);
+	}
+
+	/**
+	 * Returns all value keys already used by filter conditions, so that new
+	 * conditions on the same field get unique placeholders.
+	 */
+	protected getExistingValueKeys(): string[] {
+		const filterExpr = QueryExpressions.buildExpression(this.filterConditions);
+		return Object.keys(filterExpr.attributeValues);
+	}
+
+	protected isStringField(
+		fieldName: SchemaKeys<TSchema> | SchemaPath<TSchema>,
+	): boolean {
+		try {
+			const field = resolvePathSchema(this.config.schema, String(fieldName));
+
+			if (!field || typeof field._def !== "object") {
+				return false;
+			}
+
+			return field._def.typeName === "ZodString";
+		} catch {
+			return false;
+		}
+	}
+
+	private async execLoadAll(): Promise<TItem[]> {
+		const allItems: TItem[] = [];
+
+		for await (const items of this.stream()) {
+			allItems.push(...items);
+		}
+
+		return allItems;
+	}
+
+	/**
+	 * The selected index must exist, and a GSI cannot be read consistently.
+	 */
+	private validateIndex(): void {
+		const indexName = this.indexName;
+		if (!indexName) {
+			return;
+		}
+		if (!this.getIndex()) {
+			throw new IndexNotFoundError(indexName, this.config.tableName);
+		}
+		if (
+			this.config.globalSecondaryIndexes?.[indexName] &&
+			this.options.ConsistentRead
+		) {
+			throw new GSIValidationError(
+				`Global secondary index '${indexName}' does not support consistent reads`,
+				indexName,
+			);
+		}
+	}
+
+	/**
+	 * Attributes stored on items of the selected KEYS_ONLY or INCLUDE index,
+	 * or `undefined` when items carry every attribute.
+	 */
+	private getProjectedAttributes(): string[] | undefined {
+		const index = this.getIndex();
+		if (!index || index.projectionType === "ALL") {
+			return undefined;
+		}
+
+		if (index.projectionType === "KEYS_ONLY") {
+			return this.getKeyAttributes();
+		}
+		// TableManager adds the type attribute to INCLUDE indexes of entities
+		const included = (index.projectedAttributes ?? []).map(String);
+		if (this.getEntities().length > 0) {
+			included.push(getTypeAttribute(this.config));
+		}
+		return [...new Set([...this.getKeyAttributes(), ...included])];
+	}
+
+	/**
+	 * Whether index items are replaced with table items, which only applies
+	 * to indexes that do not project every attribute.
+	 */
+	private isHydrating(): boolean {
+		return this.isHydrate && this.getProjectedAttributes() !== undefined;
+	}
+
+	/**
+	 * Schema used to validate results: the model schema narrowed to the
+	 * selected attributes or to the index projection.
+	 */
+	private getResultSchema(): z.ZodObject<any> {
+		if (this.selectedAttributes && !this.isHydrating()) {
+			return pickSchema(this.config.schema, this.selectedAttributes);
+		}
+		const projected = this.getProjectedAttributes();
+		if (!projected) {
+			return this.config.schema;
+		}
+		const mask = Object.fromEntries(
+			projected
+				.filter((attribute) => attribute in this.config.schema.shape)
+				.map((attribute) => [attribute, true as const]),
+		);
+		return this.config.schema.pick(mask);
+	}
+
+	private referenceField(fieldName: PropertyKey): void {
+		this.referencedFields.add(String(parsePath(String(fieldName))[0]));
+	}
+
+	/**
+	 * A global secondary index only holds its projected attributes, so
+	 * filtering on or selecting any other attribute can never match.
+	 */
+	private validateProjection(): void {
+		const indexName = this.indexName;
+		const projected = this.getProjectedAttributes();
+		if (
+			!indexName ||
+			!projected ||
+			!this.config.globalSecondaryIndexes?.[indexName]
+		) {
+			return;
+		}
+
+		const selected = this.isHydrate ? [] : (this.selectedAttributes ?? []);
+		const missing = [
+			...new Set([...this.referencedFields, ...selected]),
+		].filter((field) => !projected.includes(field));
+		if (missing.length > 0) {
+			throw new ProjectionError(
+				`Index '${indexName}' does not project ${missing.map((field) => `'${field}'`).join(", ")}`,
+				indexName,
+				missing,
+			);
+		}
+	}
+
+	/**
+	 * Loads the table items for the given index keys, in order, with `null`
+	 * for items deleted in the meantime.
+	 */
+	private async hydrateItems(
+		itemKeys: Record<string, NativeAttributeValue>[],
+	): Promise<(TItem | null)[]> {
+		const keyFields = [this.config.hashKey, this.config.rangeKey]
+			.filter((field) => field !== undefined)
+			.map(String);
+		// The index items carry the table key, so these are the model's keys
+		const keys = itemKeys.map(
+			(key) =>
+				Object.fromEntries(
+					keyFields.map((field) => [field, key[field]]),
+				) as TKey,
+		);
+
+		const loaded = await (this.loadItems as ItemLoader<z.infer<TSchema>, TKey>)(
+			keys,
+			this.selectedAttributes,
+		);
+		return loaded as (TItem | null)[];
+	}
+
+	/**
+	 * Primary key plus the key of the selected index, i.e. the attributes of
+	 * a `lastEvaluatedKey` that resumes right after `item`.
+	 */
+	private extractKey(
+		item: Record<string, NativeAttributeValue>,
+	): Record<string, NativeAttributeValue> {
+		return Object.fromEntries(
+			this.getKeyAttributes().map((attribute) => [attribute, item[attribute]]),
+		);
+	}
+
+	private backoff(): Backoff {
+		return new Backoff(
+			{ operation: this.operation, tableName: this.config.tableName },
+			this.config.retry,
+			this.retryPolicy,
+		);
+	}
+
+	private errorContext(): DynamoDBErrorContext {
+		return {
+			operation: this.operation,
+			tableName: this.config.tableName,
+			indexName: this.indexName,
+		};
+	}
+
+	/**
+	 * The caller's filters plus the type attribute filter of entity models
+	 * and table reads. A hydrated read of a GSI without the type attribute
+	 * cannot filter on it; `getMany` skips other entities' items instead.
+	 */
+	private getFilterConditions(): ConditionExpression[] {
+		const entities = this.getEntities();
+		if (entities.length === 0 || !this.holdsTypeAttribute()) {
+			return this.filterConditions;
+		}
+		return [
+			...this.filterConditions,
+			entityCondition(getTypeAttribute(this.config), entities),
+		];
+	}
+
+	/**
+	 * Entity reads from a GSI that does not project the type attribute would
+	 * return every entity's items, so they must load the table items with
+	 * `hydrate()`.
+	 */
+	private validateEntityIndex(): void {
+		const indexName = this.indexName;
+		if (
+			!indexName ||
+			this.isHydrate ||
+			this.holdsTypeAttribute() ||
+			this.getEntities().length === 0
+		) {
+			return;
+		}
+
+		const typeAttribute = getTypeAttribute(this.config);
+		throw new ProjectionError(
+			this.reader
+				? `Index '${indexName}' does not project the type attribute '${typeAttribute}', so table reads cannot tell entities apart`
+				: `Index '${indexName}' does not project the type attribute '${typeAttribute}', use hydrate() to read '${this.config.entity}' items`,
+			indexName,
+			[typeAttribute],
+		);
+	}
+
+	/**
+	 * `Select: 'COUNT'` returns no keys to hydrate, so an entity count on a
+	 * GSI without the type attribute would include every entity's items.
+	 */
+	private validateEntityCount(): void {
+		const indexName = this.indexName;
+		if (
+			!indexName ||
+			this.holdsTypeAttribute() ||
+			this.getEntities().length === 0
+		) {
+			return;
+		}
+
+		throw new GSIValidationError(
+			`count() cannot tell entities apart on index '${indexName}', which does not project the type attribute '${getTypeAttribute(this.config)}'`,
+			indexName,
+		);
+	}
+
+	private getEntities(): string[] {
+		return (
+			this.reader?.entities ?? (this.config.entity ? [this.config.entity] : [])
+		);
+	}
+
+	/**
+	 * Whether items of the selected index carry the type attribute: a GSI
+	 * must project it, while local secondary indexes fetch it from the table.
+	 */
+	private holdsTypeAttribute(): boolean {
+		const indexName = this.indexName;
+		const projected = this.getProjectedAttributes();
+		if (
+			!indexName ||
+			!projected ||
+			!this.config.globalSecondaryIndexes?.[indexName]
+		) {
+			return true;
+		}
+		return projected.includes(getTypeAttribute(this.config));
+	}
+
+	private getKeyAttributes(): string[] {
+		const gsi = this.indexName
+			? this.config.globalSecondaryIndexes?.[this.indexName]
+			: undefined;
+		const attributes = [
+			this.config.hashKey,
+			this.config.rangeKey,
+			gsi?.hashKey,
+			this.getIndex()?.rangeKey,
+		]
+			.filter((attribute) => attribute !== undefined)
+			.map(String);
+		return [...new Set(attributes)];
+	}
+
+	private validateAndTransform(item: any): TItem {
+		if (this.reader) {
+			return this.reader.parse(item);
+		}
+		try {
+			return this.getResultSchema().parse(item) as TItem;
+		} catch (error) {
+			if (error instanceof z.ZodError) {
+				throw new ValidationError(
+					`Validation failed: ${error.issues.map((i) => i.message).join(", ")}`,
+				);
+			}
+			throw error;
+		}
+	}
+}
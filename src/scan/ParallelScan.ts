@@ -0,0 +1,192 @@
+import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
+import { ValidationError } from "../errors/DynamoDBError.js";
+import type {
+	ParallelScanCheckpoint,
+	ParallelScanOptions,
+	ParallelScanPage,
+	ScanResult,
+} from "../types/Scan.js";
+
+type FetchSegmentPage<T> = (
+	segment: number,
+	startKey?: Record<string, NativeAttributeValue>,
+) => Promise<ScanResult<T>>;
+
+/**
+ * Runs one scan worker per `Segment`, with at most `concurrency` segments in
+ * flight. Progress is tracked per segment as a resumable checkpoint that only
+ * advances once a page has been handed to (and processed by) the consumer.
+ *
+ * @example
+ * ```typescript
+ * const scan = User.scan().filter('status').eq('active').parallel(8, {
+ *   concurrency: 4,
+ *   onCheckpoint: (checkpoint) => saveCheckpoint(checkpoint),
+ * });
+ *
+ * for await (const page of scan) {
+ *   await exportItems(page.items);
+ * }
+ * ```
+ */
+export class ParallelScan<T> implements AsyncIterable<ParallelScanPage<T>> {
+	private readonly state: ParallelScanCheckpoint;
+	private readonly concurrency: number;
+
+	constructor(
+		private readonly fetchPage: FetchSegmentPage<T>,
+		totalSegments: number,
+		private readonly options: ParallelScanOptions = {},
+	) {
+		if (!Number.isInteger(totalSegments) || totalSegments < 1) {
+			throw new ValidationError("totalSegments must be a positive integer");
+		}
+		const concurrency = options.concurrency ?? totalSegments;
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new ValidationError("concurrency must be a positive integer");
+		}
+
+		const resumeFrom = options.resumeFrom;
+		if (resumeFrom && resumeFrom.totalSegments !== totalSegments) {
+			throw new ValidationError(
+				`Checkpoint was created for ${resumeFrom.totalSegments} segments, not ${totalSegments}`,
+			);
+		}
+
+		this.concurrency = concurrency;
+		this.state = resumeFrom
+			? structuredClone(resumeFrom)
+			: {
+					totalSegments,
+					segments: Array.from({ length: totalSegments }, (_, segment) => ({
+						segment,
+						done: false,
+					})),
+				};
+	}
+
+	/**
+	 * Returns a serializable snapshot of every segment's progress. Pass it as
+	 * `resumeFrom` to continue a crashed scan where each segment stopped.
+	 */
+	checkpoint(): ParallelScanCheckpoint {
+		return structuredClone(this.state);
+	}
+
+	/**
+	 * Merged iterator over the pages of all segments, in completion order.
+	 */
+	async *[Symbol.asyncIterator](): AsyncIterator<ParallelScanPage<T>> {
+		const pending = this.pendingSegments();
+		const inFlight = new Map<
+			number,
+			Promise<{ segment: number; result: ScanResult<T> }>
+		>();
+
+		const fetch = (segment: number) => {
+			const promise = this.fetchPage(
+				segment,
+				this.state.segments[segment].lastEvaluatedKey,
+			).then((result) => ({ segment, result }));
+			// Abandoned fetches must not surface as unhandled rejections
+			promise.catch(() => {});
+			inFlight.set(segment, promise);
+		};
+
+		const startNext = () => {
+			while (inFlight.size < this.concurrency && pending.length > 0) {
+				fetch(pending.shift() as number);
+			}
+		};
+
+		startNext();
+
+		while (inFlight.size > 0) {
+			const { segment, result } = await Promise.race(inFlight.values());
+			inFlight.delete(segment);
+
+			yield { segment, ...result };
+
+			await this.advance(segment, result.lastEvaluatedKey);
+			if (result.lastEvaluatedKey) {
+				fetch(segment);
+			} else {
+				startNext();
+			}
+		}
+	}
+
+	/**
+	 * Calls `callback` for every page, segment by segment. Each worker waits
+	 * for its callback before fetching the segment's next page. The first
+	 * failing fetch or callback stops every worker; the promise rejects with
+	 * that error once the other workers have stopped, and the checkpoint
+	 * keeps the progress made until then.
+	 */
+	async forEachPage(
+		callback: (page: ParallelScanPage<T>) => Promise<void> | void,
+	): Promise<void> {
+		const pending = this.pendingSegments();
+		let failure: { error: unknown } | undefined;
+
+		const worker = async () => {
+			try {
+				while (!failure && pending.length > 0) {
+					const segment = pending.shift() as number;
+					let lastEvaluatedKey = this.state.segments[segment].lastEvaluatedKey;
+
+					do {
+						const result = await this.fetchPage(segment, lastEvaluatedKey);
+						if (failure) {
+							return;
+						}
+						await callback({ segment, ...result });
+						// A processed page is recorded even if another worker failed
+						await this.advance(segment, result.lastEvaluatedKey);
+						lastEvaluatedKey = result.lastEvaluatedKey;
+					} while (lastEvaluatedKey && !failure);
+				}
+			} catch (error) {
+				failure ??= { error };
+			}
+		};
+
+		await Promise.all(
+			Array.from(
+				{ length: Math.min(this.concurrency, pending.length) },
+				worker,
+			),
+		);
+		if (failure) {
+			throw failure.error;
+		}
+	}
+
+	async exec(): Promise<T[]> {
+		const allItems: T[] = [];
+
+		for await (const page of this) {
+			allItems.push(...page.items);
+		}
+
+		return allItems;
+	}
+
+	private pendingSegments(): number[] {
+		return this.state.segments
+			.filter((segment) => !segment.done)
+			.map((segment) => segment.segment);
+	}
+
+	private async advance(
+		segment: number,
+		lastEvaluatedKey?: Record<string, NativeAttributeValue>,
+	): Promise<void> {
+		this.state.segments[segment] = {
+			segment,
+			lastEvaluatedKey,
+			done: !lastEvaluatedKey,
+		};
+		await this.options.onCheckpoint?.(this.checkpoint());
+	}
+}
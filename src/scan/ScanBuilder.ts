@@ -1,95 +1,126 @@
 import type {
-	DynamoDBDocument,
 	NativeAttributeValue,
 	ScanCommandInput,
+	ScanCommandOutput,
 } from "@aws-sdk/lib-dynamodb";
 import type { z } from "zod";
-import type { ModelConfig } from "../types/Model.js";
-import type { SchemaKeys } from "../types/Query.js";
-import { FilterConditions, StringFilterConditions } from "./ScanConditions.js";
+import { ValidationError } from "../errors/DynamoDBError.js";
+import { ReadBuilder } from "../query/ReadBuilder.js";
+import type { IndexNames, ModelConfig, ProjectedItem } from "../types/Model.js";
+import type { ParallelScanOptions, ScanOptions } from "../types/Scan.js";
+import { ParallelScan } from "./ParallelScan.js";
 
 export class ScanBuilder<
 	TSchema extends z.ZodObject<any>,
 	TConfig extends ModelConfig<TSchema> = ModelConfig<TSchema>,
-> {
-	private filterConditions: ConditionExpression[] = [];
-	private options: ScanOptions = {};
-	private indexName?: string;
-	private isLoadAll = false;
+	TItem = z.infer<TSchema>,
+	TKey = Record<string, NativeAttributeValue>,
+> extends ReadBuilder<TSchema, TConfig, TItem, ScanCommandInput, TKey> {
+	protected readonly operation = "Scan";
+	protected readonly options: ScanOptions = {};
 
-	constructor(
-		private readonly client: DynamoDBDocument,
-		private readonly config: TConfig,
-	) {}
+	/**
+	 * Scans a secondary index instead of the table. Throws
+	 * `IndexNotFoundError` for an unknown index; items of a KEYS_ONLY or
+	 * INCLUDE index only carry its projected attributes.
+	 */
+	usingIndex<TName extends IndexNames<TConfig>>(
+		indexName: TName,
+	): ScanBuilder<
+		TSchema,
+		TConfig,
+		ProjectedItem<
+			TSchema,
+			TConfig,
+			TConfig["hashKey"],
+			TConfig["rangeKey"],
+			TName
+		>,
+		TKey
+	> {
+		this.selectIndex(indexName as string);
+		return this as any;
+	}
 
-	filter<TField extends SchemaKeys<TSchema>>(fieldName: TField): any {
-		const existingKeys = this.getExistingValueKeys();
-		const addCondition = (condition: ConditionExpression) => {
-			this.filterConditions.push(condition);
-			return this;
-		};
+	/**
+	 * Replaces the partial items of a KEYS_ONLY or INCLUDE index with the
+	 * full table items, fetched page by page through `getMany`. Items deleted
+	 * in the meantime are dropped.
+	 */
+	hydrate(): ScanBuilder<TSchema, TConfig, z.infer<TSchema>, TKey> {
+		this.enableHydrate();
+		return this as any;
+	}
+
+	/**
+	 * Only reads the given top-level attributes (ProjectionExpression) and
+	 * narrows the result type to them. After `hydrate()`, the selection is
+	 * applied to the table items instead.
+	 * @example
+	 * const users = await User.scan().select(['id', 'email']).exec();
+	 * // => { id: string; email: string }[]
+	 */
+	select<const K extends keyof TItem & string>(
+		attributes: readonly K[],
+	): ScanBuilder<TSchema, TConfig, Pick<TItem, K>, TKey> {
+		this.selectAttributes(attributes);
+		return this as any;
+	}
 
-		if (this.isStringField(fieldName)) {
-			return new StringFilterConditions(
-				String(fieldName),
-				addCondition,
-				existingKeys,
+	segments(segment: number, totalSegments: number): this {
+		if (totalSegments < 1 || segment < 0 || segment >= totalSegments) {
+			throw new ValidationError(
+				"Segment must be between 0 and totalSegments - 1, and totalSegments must be at least 1",
 			);
 		}
+		this.options.Segment = segment;
+		this.options.TotalSegments = totalSegments;
+		return this;
+	}
 
-		return new FilterConditions(String(fieldName), addCondition, existingKeys);
+	/**
+	 * Fans the scan out over `totalSegments` segments. The returned
+	 * `ParallelScan` can be iterated as merged pages, driven with a per-page
+	 * callback, and checkpointed/resumed per segment.
+	 */
+	parallel(
+		totalSegments: number,
+		options: ParallelScanOptions = {},
+	): ParallelScan<TItem> {
+		return new ParallelScan(
+			(segment, startKey) => {
+				const request = this.buildRequest();
+				request.Segment = segment;
+				request.TotalSegments = totalSegments;
+				request.ExclusiveStartKey = startKey;
+				return this.executeRequest(request).then(
+					({ itemKeys, ...result }) => result,
+				);
+			},
+			totalSegments,
+			options,
+		);
 	}
 
-	private buildRequest(): ScanCommandInput {
+	protected createRequest(): ScanCommandInput {
 		const request: ScanCommandInput = {
 			TableName: this.config.tableName,
 		};
-
-		if (this.indexName) {
-			request.IndexName = this.indexName;
+		if (this.options.Segment !== undefined) {
+			request.Segment = this.options.Segment;
+			request.TotalSegments = this.options.TotalSegments;
 		}
-
 		return request;
 	}
 
-	async exec(): Promise<z.infer<TSchema>[]> {
-		const request = this.buildRequest();
-		const response = await this.client.scan(request);
-		return (response.Items || []).map((item) =>
-			this.validateAndTransform(item),
-		);
-	}
-
-	private validateAndTransform(item: any): z.infer<TSchema> {
-		return this.config.schema.parse(item);
-	}
-
-	private isStringField(fieldName: SchemaKeys<TSchema>): boolean {
-		// Implementation to be added
-		return false;
+	protected send(
+		request: ScanCommandInput,
+		abortSignal?: AbortSignal,
+	): Promise<ScanCommandOutput> {
+		return this.client.scan(request, { abortSignal });
 	}
 
-	private getExistingValueKeys(): string[] {
-		// Implementation to be added
-		return [];
+	protected cursorScope(request: ScanCommandInput): unknown[] {
+		return [request.Segment ?? null, request.TotalSegments ?? null];
 	}
 }
-
-interface ScanOptions
-	extends Pick<
-		ScanCommandInput,
-		| "ConsistentRead"
-		| "Limit"
-		| "ProjectionExpression"
-		| "ReturnConsumedCapacity"
-		| "Segment"
-		| "TotalSegments"
-	> {
-	ExclusiveStartKey?: Record<string, NativeAttributeValue>;
-}
-
-interface ConditionExpression {
-	expression: string;
-	attributeNames: Record<string, string>;
-	attributeValues: Record<string, NativeAttributeValue>;
-}
@@ -0,0 +1,274 @@
+import { randomUUID } from "node:crypto";
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import type {
+	DynamoDBDocument,
+	TransactWriteCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import type { z } from "zod";
+import type { Model } from "../Model.js";
+import {
+	TransactionCanceledError,
+	type TransactionCancellationReason,
+	ValidationError,
+} from "../errors/DynamoDBError.js";
+import { mapError } from "../errors/mapError.js";
+import type {
+	ConditionCallback,
+	CreateInput,
+	ModelConfig,
+	PreparedWrite,
+	PrimaryKey,
+	PutInput,
+	RetryPolicy,
+	UpdateInput,
+	WriteOperation,
+	WriteOptions,
+} from "../types/Model.js";
+import { Backoff, withRetry } from "../utils/retry.js";
+
+// DynamoDB TransactWriteItems / TransactGetItems limit
+export const MAX_TRANSACTION_ITEMS = 100;
+
+type TransactWriteItem = NonNullable<
+	TransactWriteCommandInput["TransactItems"]
+>[number];
+
+interface TransactionOperation {
+	model: Model<any, any, any, any>;
+	operation: WriteOperation;
+	write: PreparedWrite<unknown>;
+	item: TransactWriteItem;
+}
+
+/**
+ * Collects typed write operations from any number of models and runs them
+ * as a single all-or-nothing `TransactWriteItems` call.
+ *
+ * @example
+ * ```typescript
+ * await factory
+ *   .transaction()
+ *   .create(Order, { id: 'order-1', userId: 'user-1', total: 20 })
+ *   .update(User, { id: 'user-1' }, { orderCount: $add(1) })
+ *   .conditionCheck(Account, { id: 'acc-1' }, (c) => c.field('status').eq('active'))
+ *   .exec();
+ * ```
+ */
+export class TransactionBuilder {
+	private operations: TransactionOperation[] = [];
+	private requestToken?: string;
+	private retryPolicy?: RetryPolicy;
+
+	constructor(
+		private readonly client: DynamoDBDocument,
+		private readonly factoryRetry?: RetryPolicy,
+	) {}
+
+	create<
+		TSchema extends z.ZodObject<any>,
+		TConfig extends ModelConfig<TSchema>,
+	>(
+		model: Model<TSchema, any, any, TConfig>,
+		item: CreateInput<TSchema, TConfig>,
+		options: WriteOptions<TSchema> = {},
+	): this {
+		const write = model.buildPutRequest(item, options, "create");
+		return this.addOperation(model, "create", write, { Put: write.request });
+	}
+
+	put<TSchema extends z.ZodObject<any>, TConfig extends ModelConfig<TSchema>>(
+		model: Model<TSchema, any, any, TConfig>,
+		item: PutInput<TSchema, TConfig>,
+		options: WriteOptions<TSchema> = {},
+	): this {
+		const write = model.buildPutRequest(item, options, "put");
+		return this.addOperation(model, "put", write, { Put: write.request });
+	}
+
+	update<
+		TSchema extends z.ZodObject<any>,
+		THashKey extends keyof z.infer<TSchema>,
+		TRangeKey extends keyof z.infer<TSchema> | undefined,
+	>(
+		model: Model<TSchema, THashKey, TRangeKey, any>,
+		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
+		updates: UpdateInput<z.infer<TSchema>>,
+		options: WriteOptions<TSchema> = {},
+	): this {
+		const write = model.buildUpdateRequest(key, updates, options);
+		return this.addOperation(model, "update", write, {
+			Update: write.request,
+		});
+	}
+
+	destroy<
+		TSchema extends z.ZodObject<any>,
+		THashKey extends keyof z.infer<TSchema>,
+		TRangeKey extends keyof z.infer<TSchema> | undefined,
+	>(
+		model: Model<TSchema, THashKey, TRangeKey, any>,
+		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
+		options: WriteOptions<TSchema> = {},
+	): this {
+		const write = model.buildDeleteRequest(key, options);
+		return this.addOperation(model, "destroy", write, {
+			Delete: write.request,
+		});
+	}
+
+	conditionCheck<
+		TSchema extends z.ZodObject<any>,
+		THashKey extends keyof z.infer<TSchema>,
+		TRangeKey extends keyof z.infer<TSchema> | undefined,
+	>(
+		model: Model<TSchema, THashKey, TRangeKey, any>,
+		key: PrimaryKey<TSchema, THashKey, TRangeKey>,
+		condition: ConditionCallback<TSchema>,
+		options: Omit<WriteOptions<TSchema>, "condition"> = {},
+	): this {
+		const write = model.buildConditionCheckRequest(key, {
+			...options,
+			condition,
+		});
+		return this.addOperation(model, "conditionCheck", write, {
+			ConditionCheck: write.request,
+		});
+	}
+
+	/**
+	 * Sets the `ClientRequestToken` so that retries of the same transaction
+	 * within 10 minutes are idempotent.
+	 */
+	clientRequestToken(token: string): this {
+		this.requestToken = token;
+		return this;
+	}
+
+	/**
+	 * Overrides the factory's retry policy for throttled and internal errors
+	 * of this transaction.
+	 */
+	retry(policy: RetryPolicy): this {
+		this.retryPolicy = policy;
+		return this;
+	}
+
+	get size(): number {
+		return this.operations.length;
+	}
+
+	async exec(): Promise<void> {
+		if (this.operations.length === 0) {
+			throw new ValidationError("Transaction requires at least one operation");
+		}
+
+		const tableNames = new Set(
+			this.operations.map((op) => op.model.config.tableName as string),
+		);
+		// Every attempt sends the same token, so a retry is applied at most once
+		const token = this.requestToken ?? randomUUID();
+		try {
+			await withRetry(
+				() =>
+					this.client.transactWrite({
+						TransactItems: this.operations.map((op) => op.item),
+						ClientRequestToken: token,
+					}),
+				new Backoff(
+					{
+						operation: "TransactWriteItems",
+						tableName: tableNames.size === 1 ? [...tableNames][0] : undefined,
+					},
+					this.factoryRetry,
+					this.retryPolicy,
+				),
+			);
+		} catch (error) {
+			throw mapError(
+				error,
+				{ operation: "TransactWriteItems" },
+				error instanceof TransactionCanceledException
+					? this.toCanceledError(error)
+					: undefined,
+			);
+		}
+	}
+
+	private addOperation(
+		model: Model<any, any, any, any>,
+		operation: WriteOperation,
+		write: PreparedWrite<unknown>,
+		item: TransactWriteItem,
+	): this {
+		if (this.operations.length >= MAX_TRANSACTION_ITEMS) {
+			throw new ValidationError(
+				`Transactions are limited to ${MAX_TRANSACTION_ITEMS} operations`,
+			);
+		}
+
+		const target = this.itemId(model, write.key);
+		const duplicate = this.operations.some(
+			(op) => this.itemId(op.model, op.write.key) === target,
+		);
+		if (duplicate) {
+			throw new ValidationError(
+				`Transaction already contains an operation on item ${JSON.stringify(write.key)} in '${model.config.tableName}'`,
+			);
+		}
+
+		this.operations.push({ model, operation, write, item });
+		return this;
+	}
+
+	/**
+	 * Identifies an item by its table and key values in hash-then-range
+	 * order, so keys with reordered properties still match.
+	 */
+	private itemId(
+		model: Model<any, any, any, any>,
+		key: Record<string, unknown>,
+	): string {
+		const { tableName, hashKey, rangeKey } = model.config;
+		return JSON.stringify([
+			tableName,
+			key[hashKey],
+			...(rangeKey ? [key[rangeKey]] : []),
+		]);
+	}
+
+	/**
+	 * Decodes `CancellationReasons` (one per operation, in request order) into
+	 * per-operation errors, mapping failed conditions through each model.
+	 */
+	private toCanceledError(
+		error: TransactionCanceledException,
+	): TransactionCanceledError {
+		const reasons: TransactionCancellationReason[] = [];
+
+		(error.CancellationReasons ?? []).forEach((reason, index) => {
+			if (!reason.Code || reason.Code === "None") {
+				return;
+			}
+
+			const op = this.operations[index];
+			const current = reason.Item ? unmarshall(reason.Item) : undefined;
+			reasons.push({
+				index,
+				operation: op?.operation,
+				tableName: op?.model.config.tableName,
+				code: reason.Code,
+				message: reason.Message,
+				error:
+					op && reason.Code === "ConditionalCheckFailed"
+						? op.model.mapConditionFailure(current, op.operation, op.write)
+						: undefined,
+			});
+		});
+
+		return new TransactionCanceledError(
+			`Transaction cancelled: ${reasons.map((r) => `#${r.index} ${r.code}`).join(", ") || error.message}`,
+			reasons,
+		);
+	}
+}
@@ -1,4 +1,14 @@
+import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
 import type { z } from "zod";
+import type { Model } from "../Model.js";
+import type { ConditionBuilder } from "../condition/ConditionBuilder.js";
+import type {
+	CounterOperation,
+	ListOperation,
+	RemoveOperation,
+	SetOperation,
+} from "../update/UpdateOperators.js";
+import type { DocumentPath, PathValue } from "./Query.js";
 
 // GSI Configuration interface
 export interface GSIConfig<TSchema extends z.ZodObject<any>> {
@@ -38,14 +48,61 @@ export interface ModelConfig<T extends z.ZodObject<any>> {
 	ttl?: {
 		attribute: keyof z.infer<T>;
 	};
+	version?: {
+		attribute: keyof z.infer<T>; // numeric attribute used for optimistic locking
+	};
 	globalSecondaryIndexes?: Record<string, GSIConfig<T>>;
 	localSecondaryIndexes?: Record<string, LSIConfig<T>>;
+	cursorSecret?: string; // HMAC secret for pagination cursors
+	retry?: RetryPolicy; // Retries for throttled and transient failures
+	entity?: string; // Entity name for single-table design, stored in typeAttribute
+	typeAttribute?: string; // Attribute holding the entity name (default "_type")
+}
+
+export interface ModelFactoryOptions {
+	cursorSecret?: string; // Default for models that do not set their own
+	retry?: RetryPolicy; // Defaults merged under each model's own policy
+	typeAttribute?: string; // Default for models that do not set their own
+}
+
+// Capped exponential backoff with full jitter for throttling, internal
+// errors and unprocessed batch items/keys. Each attempt is one SDK call, which
+// makes up to `maxAttempts` tries of its own (SDK default 3), so one request
+// may be sent up to (maxRetries + 1) * maxAttempts times.
+export interface RetryPolicy {
+	maxRetries?: number; // Retries after the first attempt (default 3)
+	baseDelayMs?: number; // Backoff base delay (default 50)
+	maxDelayMs?: number; // Backoff delay cap (default 5000)
+	maxElapsedMs?: number; // Stop retrying once this much time has passed
+	onRetry?: (event: RetryEvent) => void;
+}
+
+export interface RetryEvent {
+	operation: string; // DynamoDB API, e.g. "Query" or "BatchWriteItem"
+	tableName?: string; // Unset for transactions across several tables
+	attempt: number; // 1 for the first retry
+	delayMs: number;
+	elapsedMs: number;
+	error?: unknown; // The throttling or internal error being retried
+	unprocessed?: number; // Items/keys left over by a batch call
 }
 
 export interface ModelOptions {
 	consistentRead?: boolean;
+	retry?: RetryPolicy;
 }
 
+export interface GetOptions<K extends PropertyKey = PropertyKey>
+	extends ModelOptions {
+	// Only read these attributes (ProjectionExpression)
+	attributes?: readonly K[];
+}
+
+// Item narrowed to the selected attributes, or the whole item without a selection
+export type SelectedItem<T, K extends PropertyKey> = [keyof T] extends [K]
+	? T
+	: Pick<T, Extract<K, keyof T>>;
+
 // Type utility for extracting GSI index names for compile-time validation
 export type GSIIndexNames<TConfig extends ModelConfig<any>> =
 	TConfig["globalSecondaryIndexes"] extends Record<string, any>
@@ -63,6 +120,105 @@ export type IndexNames<TConfig extends ModelConfig<any>> =
 	| GSIIndexNames<TConfig>
 	| LSIIndexNames<TConfig>;
 
+// Range key of the table, or of the index selected with usingIndex()
+export type ActiveRangeKey<
+	TConfig extends ModelConfig<any>,
+	TRangeKey,
+	TIndex,
+> = [TIndex] extends [undefined]
+	? TRangeKey
+	: TIndex extends GSIIndexNames<TConfig>
+		? IndexRangeKey<NonNullable<TConfig["globalSecondaryIndexes"]>[TIndex]>
+		: TIndex extends LSIIndexNames<TConfig>
+			? IndexRangeKey<NonNullable<TConfig["localSecondaryIndexes"]>[TIndex]>
+			: never;
+
+type IndexRangeKey<TIndexConfig> = TIndexConfig extends {
+	rangeKey: infer R;
+}
+	? R
+	: never;
+
+// Hash key of an index; local secondary indexes share the table's hash key
+export type IndexHashKey<
+	TConfig extends ModelConfig<any>,
+	THashKey,
+	TIndex,
+> = TIndex extends GSIIndexNames<TConfig>
+	? NonNullable<TConfig["globalSecondaryIndexes"]>[TIndex] extends {
+			hashKey: infer H;
+		}
+		? H
+		: never
+	: THashKey;
+
+// GSIConfig or LSIConfig of the named index
+export type IndexConfigOf<
+	TConfig extends ModelConfig<any>,
+	TIndex,
+> = TIndex extends GSIIndexNames<TConfig>
+	? NonNullable<TConfig["globalSecondaryIndexes"]>[TIndex]
+	: TIndex extends LSIIndexNames<TConfig>
+		? NonNullable<TConfig["localSecondaryIndexes"]>[TIndex]
+		: never;
+
+// Attributes present on items read from an index: table and index keys, plus
+// projectedAttributes for INCLUDE. ALL (or an unknown projection) keeps all.
+export type IndexProjectedKeys<
+	TSchema extends z.ZodObject<any>,
+	TConfig extends ModelConfig<TSchema>,
+	THashKey,
+	TRangeKey,
+	TIndex,
+> = "ALL" extends IndexConfigOf<TConfig, TIndex>["projectionType"]
+	? keyof z.infer<TSchema>
+	:
+			| THashKey
+			| Exclude<TRangeKey, undefined>
+			| IndexHashKey<TConfig, THashKey, TIndex>
+			| ActiveRangeKey<TConfig, never, TIndex>
+			| (IndexConfigOf<TConfig, TIndex> extends {
+					projectionType: "INCLUDE";
+					projectedAttributes: readonly (infer A)[];
+			  }
+					? A
+					: never);
+
+// Item type returned by a query on the table or on the given index
+export type ProjectedItem<
+	TSchema extends z.ZodObject<any>,
+	TConfig extends ModelConfig<TSchema>,
+	THashKey,
+	TRangeKey,
+	TIndex,
+> = [TIndex] extends [undefined]
+	? z.infer<TSchema>
+	: Pick<
+			z.infer<TSchema>,
+			Extract<
+				IndexProjectedKeys<TSchema, TConfig, THashKey, TRangeKey, TIndex>,
+				keyof z.infer<TSchema>
+			>
+		>;
+
+// Key values accepted by Model.queryIndex(): the index hash key is required
+export type IndexKeyValues<
+	TSchema extends z.ZodObject<any>,
+	TConfig extends ModelConfig<TSchema>,
+	THashKey,
+	TIndex,
+> = {
+	[K in Extract<
+		IndexHashKey<TConfig, THashKey, TIndex>,
+		keyof z.infer<TSchema>
+	>]: z.infer<TSchema>[K];
+} & {
+	[K in Extract<
+		ActiveRangeKey<TConfig, never, TIndex>,
+		keyof z.infer<TSchema>
+	>]?: z.infer<TSchema>[K];
+};
+
 // Utility type for primary keys - only includes hash and range key fields
 export type PrimaryKey<
 	TSchema extends z.ZodObject<any>,
@@ -78,7 +234,162 @@ export type PrimaryKey<
 			[K in THashKey]: z.infer<TSchema>[K];
 		};
 
+// Name of the optimistic locking attribute, or never when versioning is off
+export type VersionAttribute<
+	TSchema extends z.ZodObject<any>,
+	TConfig extends ModelConfig<TSchema>,
+> = TConfig["version"] extends { attribute: infer A }
+	? Extract<A, keyof z.infer<TSchema>>
+	: never;
+
+// Item accepted by create: timestamps and version are managed by the model
+export type CreateInput<
+	TSchema extends z.ZodObject<any>,
+	TConfig extends ModelConfig<TSchema>,
+> = Omit<
+	z.infer<TSchema>,
+	"createdAt" | "updatedAt" | VersionAttribute<TSchema, TConfig>
+>;
+
+// Item accepted by put: the version, when present, is the expected current version
+export type PutInput<
+	TSchema extends z.ZodObject<any>,
+	TConfig extends ModelConfig<TSchema>,
+> = CreateInput<TSchema, TConfig> &
+	Partial<Pick<z.infer<TSchema>, VersionAttribute<TSchema, TConfig>>>;
+
+// Update operators accepted for a field, based on its value type
+export type UpdateValue<V> =
+	| V
+	| (undefined extends V ? RemoveOperation : never)
+	| (NonNullable<V> extends number
+			? CounterOperation
+			: NonNullable<V> extends Array<infer U>
+				? ListOperation<U>
+				: NonNullable<V> extends Set<infer U>
+					? SetOperation<U>
+					: never);
+
 // Utility type for partial updates
-export type UpdateInput<T> = Partial<Omit<T, "createdAt">> & {
+export type UpdateInput<T> = {
+	[K in Exclude<keyof T, "createdAt" | "updatedAt">]?: UpdateValue<T[K]>;
+} & {
+	// Nested map and list members, e.g. 'address.city' or 'items[0].qty'
+	[P in Exclude<DocumentPath<T>, keyof T>]?: UpdateValue<PathValue<T, P>>;
+} & {
 	updatedAt?: never; // Prevent manual updatedAt setting
 };
+
+// A single SET/REMOVE/ADD/DELETE clause entry produced for an UpdateExpression
+export interface UpdateAction {
+	clause: "SET" | "REMOVE" | "ADD" | "DELETE";
+	expression: string;
+	attributeNames: Record<string, string>;
+	attributeValues: Record<string, NativeAttributeValue>;
+}
+
+// Callback used to describe a write's ConditionExpression
+export type ConditionCallback<TSchema extends z.ZodObject<any>> = (
+	condition: ConditionBuilder<TSchema>,
+) => unknown;
+
+export interface WriteOptions<TSchema extends z.ZodObject<any>> {
+	condition?: ConditionCallback<TSchema>;
+	// Attach the current item to ConditionalCheckFailedError when the condition fails
+	returnValuesOnConditionCheckFailure?: "ALL_OLD" | "NONE";
+	// Current version of the item, required for update/destroy on versioned models
+	expectedVersion?: number;
+	retry?: RetryPolicy;
+}
+
+export type WriteOperation =
+	| "create"
+	| "put"
+	| "update"
+	| "destroy"
+	| "conditionCheck";
+
+// A write request plus the context needed to map its conditional failures
+export interface PreparedWrite<TRequest> {
+	request: TRequest;
+	key: Record<string, unknown>;
+	expectedVersion?: number;
+}
+
+// Request shape of a ConditionCheck inside TransactWriteItems
+export interface ConditionCheckRequest {
+	TableName: string;
+	Key: Record<string, NativeAttributeValue>;
+	ConditionExpression: string;
+	ExpressionAttributeNames?: Record<string, string>;
+	ExpressionAttributeValues?: Record<string, NativeAttributeValue>;
+	ReturnValuesOnConditionCheckFailure?: "ALL_OLD" | "NONE";
+}
+
+// Item type produced by a model
+export type ModelItem<TModel> = TModel extends Model<
+	infer TSchema,
+	any,
+	any,
+	any
+>
+	? z.infer<TSchema>
+	: never;
+
+// A table item tagged with the entity of the model that parsed it
+export type EntityItem<TModel> = TModel extends Model<
+	infer TSchema,
+	any,
+	any,
+	infer TConfig
+>
+	? TConfig extends { entity: infer E extends string }
+		? { entity: E; item: z.infer<TSchema> }
+		: never
+	: never;
+
+// Primary key type accepted by a model
+export type ModelKey<TModel> = TModel extends Model<
+	infer TSchema,
+	infer THashKey,
+	infer TRangeKey,
+	any
+>
+	? PrimaryKey<TSchema, THashKey, TRangeKey>
+	: never;
+
+// A single read inside TransactGetItems
+export interface TransactGetRequest<TModel extends Model<any, any, any, any>> {
+	model: TModel;
+	key: ModelKey<TModel>;
+}
+
+// A transaction spans models, so their own retry policies do not apply
+export interface TransactGetOptions {
+	retry?: RetryPolicy; // Merged over the ModelFactory's retry policy
+}
+
+// Concurrency and retry settings shared by batch reads and writes
+export interface BatchOptions {
+	concurrency?: number; // Max batch requests in flight (default 4)
+	retry?: RetryPolicy;
+}
+
+export type BatchWriteOptions = BatchOptions;
+
+export interface GetManyOptions<K extends PropertyKey = PropertyKey>
+	extends GetOptions<K>,
+		BatchOptions {
+	// Return one entry per input key, in input order, with null for misses
+	alignToKeys?: boolean;
+}
+
+// A single PutRequest or DeleteRequest inside BatchWriteItem
+export type BatchWriteRequest =
+	| { PutRequest: { Item: Record<string, NativeAttributeValue> } }
+	| { DeleteRequest: { Key: Record<string, NativeAttributeValue> } };
+
+export interface BatchWriteResult<T> {
+	written: T[];
+	failed: { item: T; error: Error }[];
+}
@@ -1,3 +1,4 @@
+import type { ConsumedCapacity } from "@aws-sdk/client-dynamodb";
 import type {
 	NativeAttributeValue,
 	QueryCommandInput,
@@ -32,8 +33,71 @@ export interface QueryResult<T> {
 	count: number;
 	scannedCount: number;
 	consumedCapacity?: any;
+	// Signed form of lastEvaluatedKey, set when the model has a cursorSecret
+	cursor?: string;
 }
 
+// A page together with the primary and index key of each returned item
+export interface KeyedResult<T> extends QueryResult<T> {
+	itemKeys: Record<string, NativeAttributeValue>[];
+}
+
+// Relay connection arguments: first/after pages forward, last/before backward
+export interface ConnectionArgs {
+	first?: number;
+	after?: string;
+	last?: number;
+	before?: string;
+}
+
+export interface Edge<T> {
+	node: T;
+	cursor: string;
+}
+
+export interface PageInfo {
+	hasNextPage: boolean;
+	hasPreviousPage: boolean;
+	startCursor: string | null;
+	endCursor: string | null;
+}
+
+export interface Connection<T> {
+	edges: Edge<T>[];
+	pageInfo: PageInfo;
+}
+
+// Parses the items of several entities read from one table
+export interface EntityReader<T> {
+	entities: string[];
+	parse: (item: Record<string, NativeAttributeValue>) => T;
+}
+
+export interface StreamOptions {
+	prefetch?: number; // Pages requested or buffered ahead of the consumer (default: 0)
+}
+
+export interface PageOptions {
+	maxRequests?: number; // Cap on underlying requests (default: 10)
+}
+
+export interface ItemsOptions {
+	max?: number; // Stop after this many items in total (default: all)
+}
+
+// Totals of a count-only query or scan over every page
+export interface CountResult {
+	count: number;
+	scannedCount: number;
+	consumedCapacity?: ConsumedCapacity;
+}
+
+// Loads items by primary key in key order, null for missing items
+export type ItemLoader<T, TKey = Record<string, NativeAttributeValue>> = (
+	keys: TKey[],
+	attributes?: readonly string[],
+) => Promise<(T | null)[]>;
+
 export interface IndexConfig {
 	name: string;
 	hashKey: string;
@@ -64,6 +128,87 @@ export interface DynamoDBExpression {
 
 export type SchemaKeys<T extends z.ZodObject<any>> = keyof z.infer<T>;
 
+// Remaining recursion depth for document paths
+type PathDepth = [never, 0, 1, 2, 3, 4];
+
+// Values that are stored as a single attribute rather than a map or list
+type PathLeaf = Date | Set<any> | Map<any, any> | Uint8Array;
+
+type PathSuffix<V, D extends number> = [D] extends [never]
+	? never
+	: NonNullable<V> extends PathLeaf
+		? never
+		: NonNullable<V> extends readonly (infer U)[]
+			? `[${number}]` | `[${number}]${PathSuffix<U, PathDepth[D]>}`
+			: NonNullable<V> extends object
+				? `.${DocumentPath<NonNullable<V>, PathDepth[D]>}`
+				: never;
+
+/**
+ * Every attribute name plus the nested map and list paths below it.
+ * @example
+ * // { address: { city: string }, items: { sku: string }[] }
+ * // => 'address' | 'address.city' | 'items' | `items[${number}]` | `items[${number}].sku`
+ */
+export type DocumentPath<T, D extends number = 4> = [D] extends [never]
+	? never
+	: {
+			[K in keyof T & string]-?: K | `${K}${PathSuffix<T[K], D>}`;
+		}[keyof T & string];
+
+type IndexedValue<V, S extends string> = S extends `[${number}]${infer Rest}`
+	? IndexedValue<NonNullable<V> extends readonly (infer U)[] ? U : never, Rest>
+	: V;
+
+type SegmentValue<T, S extends string> = S extends keyof T
+	? T[S]
+	: S extends `${infer K}[${infer Rest}`
+		? K extends keyof T
+			? IndexedValue<T[K], `[${Rest}`>
+			: never
+		: never;
+
+/**
+ * The value type stored at a document path.
+ * @example
+ * // PathValue<{ items: { sku: string }[] }, 'items[0].sku'> => string
+ */
+export type PathValue<T, P> = P extends keyof T
+	? T[P]
+	: P extends `${infer Head}.${infer Rest}`
+		? PathValue<NonNullable<SegmentValue<T, Head>>, Rest>
+		: P extends string
+			? SegmentValue<T, P>
+			: never;
+
+// DynamoDB attribute type descriptors accepted by `attribute_type`
+export type AttributeType =
+	| "S"
+	| "SS"
+	| "N"
+	| "NS"
+	| "B"
+	| "BS"
+	| "BOOL"
+	| "NULL"
+	| "L"
+	| "M";
+
+// Values that `size()` applies to: strings, binary, lists, sets and maps
+export type SizeableValue =
+	| string
+	| Uint8Array
+	| readonly unknown[]
+	| Set<unknown>
+	| Record<string, unknown>;
+
+export type SchemaPath<T extends z.ZodObject<any>> = DocumentPath<z.infer<T>>;
+
+export type SchemaPathValue<T extends z.ZodObject<any>, P> = PathValue<
+	z.infer<T>,
+	P
+>;
+
 // Type-safe value type that matches NativeAttributeValue but with better inference
 export type TypedNativeValue<T> = T extends string
 	? string
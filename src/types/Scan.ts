@@ -0,0 +1,42 @@
+import type {
+	NativeAttributeValue,
+	ScanCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import type { QueryResult } from "./Query.js";
+
+// ScanOptions that map directly to ScanCommandInput properties
+export interface ScanOptions
+	extends Pick<
+		ScanCommandInput,
+		| "ConsistentRead"
+		| "Limit"
+		| "ProjectionExpression"
+		| "ReturnConsumedCapacity"
+		| "Segment"
+		| "TotalSegments"
+	> {
+	ExclusiveStartKey?: Record<string, NativeAttributeValue>;
+}
+
+export type ScanResult<T> = QueryResult<T>;
+
+// A page of results from one segment of a parallel scan
+export interface ParallelScanPage<T> extends ScanResult<T> {
+	segment: number;
+}
+
+// Serializable progress of a parallel scan, used to resume it
+export interface ParallelScanCheckpoint {
+	totalSegments: number;
+	segments: {
+		segment: number;
+		lastEvaluatedKey?: Record<string, NativeAttributeValue>;
+		done: boolean;
+	}[];
+}
+
+export interface ParallelScanOptions {
+	concurrency?: number; // Max segments scanned at once (default: totalSegments)
+	resumeFrom?: ParallelScanCheckpoint;
+	onCheckpoint?: (checkpoint: ParallelScanCheckpoint) => Promise<void> | void;
+}
@@ -0,0 +1,142 @@
+import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
+import { QueryExpressions } from "../query/QueryExpressions.js";
+import type { UpdateAction } from "../types/Model.js";
+import type { DynamoDBExpression } from "../types/Query.js";
+import { buildPathExpression, valueKeyBase } from "../utils/paths.js";
+
+export type UpdateOperator =
+	| "set"
+	| "remove"
+	| "add"
+	| "delete"
+	| "append"
+	| "prepend";
+
+const CLAUSE_ORDER: UpdateAction["clause"][] = [
+	"SET",
+	"REMOVE",
+	"ADD",
+	"DELETE",
+];
+
+// biome-ignore lint/complexity/noStaticOnlyClass: <explanation>
+export class UpdateExpressions {
+	/**
+	 * Groups update actions by clause and joins them into a single UpdateExpression.
+	 * @example
+	 * // [SET #name = :name, SET #age = :age, REMOVE #nickname]
+	 * // => 'SET #name = :name, #age = :age REMOVE #nickname'
+	 */
+	static buildExpression(actions: UpdateAction[]): DynamoDBExpression {
+		const clauses: string[] = [];
+		let attributeNames: Record<string, string> = {};
+		let attributeValues: Record<string, NativeAttributeValue> = {};
+
+		for (const clause of CLAUSE_ORDER) {
+			const clauseActions = actions.filter((a) => a.clause === clause);
+			if (clauseActions.length === 0) {
+				continue;
+			}
+			clauses.push(
+				`${clause} ${clauseActions.map((a) => a.expression).join(", ")}`,
+			);
+		}
+
+		for (const action of actions) {
+			attributeNames = { ...attributeNames, ...action.attributeNames };
+			attributeValues = { ...attributeValues, ...action.attributeValues };
+		}
+
+		return {
+			expression: clauses.join(" "),
+			attributeNames,
+			attributeValues,
+		};
+	}
+
+	/**
+	 * Builds one update action. Value keys taken by the action are added to
+	 * `existingValueKeys`, so passing the same list to every action of an
+	 * update keeps placeholders unique, e.g. for `a.b` and `a_b`.
+	 */
+	static createAction(
+		key: string,
+		operator: UpdateOperator,
+		value?: NativeAttributeValue,
+		existingValueKeys: string[] = [],
+	): UpdateAction {
+		/** "#address.#city" */
+		const path = buildPathExpression(key);
+		const hashKey = path.expression;
+		const valueBase = valueKeyBase(key);
+		/** ":value" */
+		const colonValue = QueryExpressions.generateUniqueValueKey(
+			valueBase,
+			existingValueKeys,
+		);
+		if (operator !== "remove") {
+			existingValueKeys.push(colonValue);
+		}
+
+		switch (operator) {
+			case "set":
+				return {
+					clause: "SET",
+					expression: `${hashKey} = ${colonValue}`,
+					attributeNames: path.attributeNames,
+					attributeValues: {
+						[colonValue]: QueryExpressions.formatValue(value),
+					},
+				};
+
+			case "add":
+				return {
+					clause: "ADD",
+					expression: `${hashKey} ${colonValue}`,
+					attributeNames: path.attributeNames,
+					attributeValues: { [colonValue]: value },
+				};
+
+			case "delete":
+				return {
+					clause: "DELETE",
+					expression: `${hashKey} ${colonValue}`,
+					attributeNames: path.attributeNames,
+					attributeValues: { [colonValue]: value },
+				};
+
+			case "append":
+			case "prepend": {
+				const emptyList = QueryExpressions.generateUniqueValueKey(
+					`${valueBase}_empty`,
+					existingValueKeys,
+				);
+				existingValueKeys.push(emptyList);
+				const current = `if_not_exists(${hashKey}, ${emptyList})`;
+				return {
+					clause: "SET",
+					expression:
+						operator === "append"
+							? `${hashKey} = list_append(${current}, ${colonValue})`
+							: `${hashKey} = list_append(${colonValue}, ${current})`,
+					attributeNames: path.attributeNames,
+					attributeValues: {
+						[colonValue]: value,
+						[emptyList]: [],
+					},
+				};
+			}
+
+			case "remove":
+				return {
+					clause: "REMOVE",
+					expression: hashKey,
+					attributeNames: path.attributeNames,
+					attributeValues: {},
+				};
+
+			default:
+				throw new Error(`Unsupported update operator: ${operator}`);
+		}
+	}
+}
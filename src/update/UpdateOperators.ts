@@ -0,0 +1,85 @@
+export type UpdateOperationKind =
+	| "add"
+	| "append"
+	| "prepend"
+	| "setAdd"
+	| "setDelete"
+	| "remove";
+
+/**
+ * An atomic update operator used as a field value in `Model.update`.
+ * Instances are created through the `$add`, `$append`, `$setAdd`, ... helpers.
+ */
+export class UpdateOperation<
+	TKind extends UpdateOperationKind = UpdateOperationKind,
+	TValue = unknown,
+> {
+	constructor(
+		readonly kind: TKind,
+		readonly value: TValue,
+	) {}
+}
+
+export type CounterOperation = UpdateOperation<"add", number>;
+export type ListOperation<T> = UpdateOperation<"append" | "prepend", T[]>;
+export type SetOperation<T> = UpdateOperation<"setAdd" | "setDelete", Set<T>>;
+export type RemoveOperation = UpdateOperation<"remove", undefined>;
+
+/**
+ * Atomically increments a numeric field (`ADD #field :value`).
+ * @example
+ * await Post.update({ id: 'post-1' }, { views: $add(1) });
+ */
+export function $add(value: number): CounterOperation {
+	return new UpdateOperation("add", value);
+}
+
+/**
+ * Atomically decrements a numeric field (`ADD #field :-value`).
+ * @example
+ * await Product.update({ id: 'prod-1' }, { stock: $subtract(2) });
+ */
+export function $subtract(value: number): CounterOperation {
+	return new UpdateOperation("add", -value);
+}
+
+/**
+ * Appends values to the end of a list field, creating the list if missing.
+ * @example
+ * await Post.update({ id: 'post-1' }, { tags: $append(['aws', 'dynamodb']) });
+ */
+export function $append<T>(values: T[]): ListOperation<T> {
+	return new UpdateOperation("append", values);
+}
+
+/**
+ * Prepends values to the start of a list field, creating the list if missing.
+ */
+export function $prepend<T>(values: T[]): ListOperation<T> {
+	return new UpdateOperation("prepend", values);
+}
+
+/**
+ * Adds members to a set field (`ADD #field :values`).
+ * @example
+ * await User.update({ id: 'user-1' }, { roles: $setAdd('admin', 'editor') });
+ */
+export function $setAdd<T>(...values: T[]): SetOperation<T> {
+	return new UpdateOperation("setAdd", new Set(values));
+}
+
+/**
+ * Removes members from a set field (`DELETE #field :values`).
+ */
+export function $setDelete<T>(...values: T[]): SetOperation<T> {
+	return new UpdateOperation("setDelete", new Set(values));
+}
+
+/**
+ * Removes an optional attribute from the item (`REMOVE #field`).
+ * @example
+ * await User.update({ id: 'user-1' }, { nickname: $remove() });
+ */
+export function $remove(): RemoveOperation {
+	return new UpdateOperation("remove", undefined);
+}
@@ -0,0 +1,53 @@
+export function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Capped exponential backoff with full jitter: a random delay between 0 and
+ * `min(maxDelayMs, baseDelayMs * 2^attempt)`.
+ */
+export function backoffDelay(
+	attempt: number,
+	baseDelayMs: number,
+	maxDelayMs: number,
+): number {
+	return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+	const chunks: T[][] = [];
+	for (let i = 0; i < items.length; i += size) {
+		chunks.push(items.slice(i, i + size));
+	}
+	return chunks;
+}
+
+/**
+ * Maps over `items` with at most `concurrency` calls in flight, keeping the
+ * results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	if (concurrency < 1) {
+		throw new Error("Concurrency must be at least 1");
+	}
+
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.min(concurrency, items.length) }, worker),
+	);
+
+	return results;
+}
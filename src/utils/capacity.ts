@@ -0,0 +1,57 @@
+import type { Capacity, ConsumedCapacity } from "@aws-sdk/client-dynamodb";
+
+/**
+ * Adds up the `ConsumedCapacity` of several requests against the same table,
+ * including the per-table and per-index breakdown of `INDEXES` mode.
+ */
+export function mergeConsumedCapacity(
+	total: ConsumedCapacity | undefined,
+	next: ConsumedCapacity | undefined,
+): ConsumedCapacity | undefined {
+	if (!total || !next) {
+		return total ?? next;
+	}
+
+	return {
+		TableName: total.TableName ?? next.TableName,
+		...addCapacity(total, next),
+		Table:
+			total.Table || next.Table
+				? addCapacity(total.Table, next.Table)
+				: undefined,
+		LocalSecondaryIndexes: addIndexCapacity(
+			total.LocalSecondaryIndexes,
+			next.LocalSecondaryIndexes,
+		),
+		GlobalSecondaryIndexes: addIndexCapacity(
+			total.GlobalSecondaryIndexes,
+			next.GlobalSecondaryIndexes,
+		),
+	};
+}
+
+function addCapacity(a: Capacity = {}, b: Capacity = {}): Capacity {
+	const sum = (x?: number, y?: number) =>
+		x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0);
+
+	return {
+		CapacityUnits: sum(a.CapacityUnits, b.CapacityUnits),
+		ReadCapacityUnits: sum(a.ReadCapacityUnits, b.ReadCapacityUnits),
+		WriteCapacityUnits: sum(a.WriteCapacityUnits, b.WriteCapacityUnits),
+	};
+}
+
+function addIndexCapacity(
+	a: Record<string, Capacity> | undefined,
+	b: Record<string, Capacity> | undefined,
+): Record<string, Capacity> | undefined {
+	if (!a || !b) {
+		return a ?? b;
+	}
+
+	const merged: Record<string, Capacity> = { ...a };
+	for (const [indexName, capacity] of Object.entries(b)) {
+		merged[indexName] = addCapacity(merged[indexName], capacity);
+	}
+	return merged;
+}
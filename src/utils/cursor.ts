@@ -0,0 +1,132 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { type NativeAttributeValue, NumberValue } from "@aws-sdk/lib-dynamodb";
+import {
+	InvalidCursorError,
+	ValidationError,
+} from "../errors/DynamoDBError.js";
+
+export interface CursorContext {
+	secret?: string;
+	// Identifies the table, index and query a cursor is valid for
+	scope: string;
+	// Key attributes in a fixed order, so names are not part of the cursor
+	keyAttributes: string[];
+}
+
+type EncodedValue = ["S", string] | ["N", string] | ["B", string] | null;
+
+/**
+ * Serializes a `lastEvaluatedKey` into an opaque, URL-safe cursor signed
+ * with HMAC-SHA256 over the key and the scope.
+ */
+export function encodeCursor(
+	key: Record<string, NativeAttributeValue>,
+	context: CursorContext,
+): string {
+	const payload = Buffer.from(
+		JSON.stringify(
+			context.keyAttributes.map((attribute) => encodeValue(key[attribute])),
+		),
+	).toString("base64url");
+
+	return `${payload}.${sign(payload, context)}`;
+}
+
+/**
+ * Verifies a cursor from `encodeCursor` and restores the key. Throws
+ * `InvalidCursorError` for malformed or tampered cursors and for cursors
+ * created for another table, index or query.
+ */
+export function decodeCursor(
+	cursor: string,
+	context: CursorContext,
+): Record<string, NativeAttributeValue> {
+	const [payload, signature, ...rest] = cursor.split(".");
+	if (!payload || !signature || rest.length > 0) {
+		throw new InvalidCursorError("Malformed cursor");
+	}
+
+	const expected = new Uint8Array(
+		Buffer.from(sign(payload, context), "base64url"),
+	);
+	const actual = new Uint8Array(Buffer.from(signature, "base64url"));
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+		throw new InvalidCursorError("Cursor is not valid for this query");
+	}
+
+	let values: unknown;
+	try {
+		values = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+	} catch {
+		throw new InvalidCursorError("Malformed cursor");
+	}
+	if (
+		!Array.isArray(values) ||
+		values.length !== context.keyAttributes.length
+	) {
+		throw new InvalidCursorError("Malformed cursor");
+	}
+
+	const key: Record<string, NativeAttributeValue> = {};
+	context.keyAttributes.forEach((attribute, i) => {
+		const value = decodeValue(values[i]);
+		if (value !== undefined) {
+			key[attribute] = value;
+		}
+	});
+	return key;
+}
+
+function sign(payload: string, context: CursorContext): string {
+	if (!context.secret) {
+		throw new ValidationError(
+			"Cursors require a cursorSecret on the model or ModelFactory",
+		);
+	}
+	return createHmac("sha256", context.secret)
+		.update(`${context.scope}\n${payload}`)
+		.digest("base64url");
+}
+
+function encodeValue(value: NativeAttributeValue): EncodedValue {
+	if (value === undefined) {
+		return null;
+	}
+	if (typeof value === "string") {
+		return ["S", value];
+	}
+	if (
+		typeof value === "number" ||
+		typeof value === "bigint" ||
+		value instanceof NumberValue
+	) {
+		return ["N", String(value)];
+	}
+	if (value instanceof Uint8Array) {
+		return ["B", Buffer.from(value).toString("base64url")];
+	}
+	throw new ValidationError(
+		"Only string, number and binary keys can be cursors",
+	);
+}
+
+function decodeValue(value: unknown): NativeAttributeValue {
+	if (value === null) {
+		return undefined;
+	}
+	const [type, data] = Array.isArray(value) ? value : [];
+	if (typeof data !== "string") {
+		throw new InvalidCursorError("Malformed cursor");
+	}
+	switch (type) {
+		case "S":
+			return data;
+		case "N":
+			// Kept as the exact digits, large numbers do not fit a double
+			return NumberValue.from(data);
+		case "B":
+			return new Uint8Array(Buffer.from(data, "base64url"));
+		default:
+			throw new InvalidCursorError("Malformed cursor");
+	}
+}
@@ -0,0 +1,53 @@
+import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
+import type { ModelConfig } from "../types/Model.js";
+import type { ConditionExpression } from "../types/Query.js";
+
+export const DEFAULT_TYPE_ATTRIBUTE = "_type";
+
+// Placeholders unlikely to clash with the ones generated for schema fields
+const NAME = "#__entity";
+const VALUE = ":__entity";
+
+export function getTypeAttribute(config: ModelConfig<any>): string {
+	return config.typeAttribute ?? DEFAULT_TYPE_ATTRIBUTE;
+}
+
+/**
+ * `#type = :entity`, or `#type IN (...)` for several entities.
+ */
+export function entityCondition(
+	typeAttribute: string,
+	entities: string[],
+): ConditionExpression {
+	const attributeValues: Record<string, NativeAttributeValue> = {};
+	entities.forEach((entity, i) => {
+		attributeValues[entities.length === 1 ? VALUE : `${VALUE}_${i}`] = entity;
+	});
+	const values = Object.keys(attributeValues);
+
+	return {
+		expression:
+			values.length === 1
+				? `${NAME} = ${values[0]}`
+				: `${NAME} IN (${values.join(", ")})`,
+		attributeNames: { [NAME]: typeAttribute },
+		attributeValues,
+	};
+}
+
+/**
+ * `attribute_not_exists(#key) OR #type = :entity`: the item is new or
+ * already belongs to the entity.
+ */
+export function newOrEntityCondition(
+	hashKey: string,
+	typeAttribute: string,
+	entity: string,
+): ConditionExpression {
+	const condition = entityCondition(typeAttribute, [entity]);
+	return {
+		expression: `attribute_not_exists(#__entity_key) OR ${condition.expression}`,
+		attributeNames: { ...condition.attributeNames, "#__entity_key": hashKey },
+		attributeValues: condition.attributeValues,
+	};
+}
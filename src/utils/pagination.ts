@@ -0,0 +1,109 @@
+import type { ConsumedCapacity } from "@aws-sdk/client-dynamodb";
+import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
+import type { KeyedResult, QueryResult } from "../types/Query.js";
+import { mergeConsumedCapacity } from "./capacity.js";
+
+// Default cap on the requests one page() call may issue
+export const DEFAULT_MAX_PAGE_REQUESTS = 10;
+
+type FetchKeyedPage<T> = (
+	startKey: Record<string, NativeAttributeValue> | undefined,
+	missing: number,
+) => Promise<KeyedResult<T>>;
+
+export interface FilledPage<T> {
+	items: T[];
+	itemKeys: Record<string, NativeAttributeValue>[];
+	// Right after the last collected item; undefined when nothing is left
+	lastEvaluatedKey?: Record<string, NativeAttributeValue>;
+	scannedCount: number;
+	consumedCapacity?: ConsumedCapacity;
+}
+
+/**
+ * Streams pages while up to `prefetch` following pages are requested or
+ * buffered ahead of the consumer. Pages depend on the previous page's
+ * `lastEvaluatedKey`, so requests still run one at a time; closing the
+ * iterator early aborts the pending request and stops any further ones.
+ */
+export async function* readAhead<T>(
+	fetchPage: (
+		startKey: Record<string, NativeAttributeValue> | undefined,
+		abortSignal: AbortSignal,
+	) => Promise<QueryResult<T>>,
+	startKey: Record<string, NativeAttributeValue> | undefined,
+	prefetch: number,
+): AsyncGenerator<T[]> {
+	const controller = new AbortController();
+	// `null` marks the end of the results
+	const buffer: Promise<QueryResult<T> | null>[] = [];
+	let tail: Promise<QueryResult<T> | null> | undefined;
+
+	const fill = (size: number) => {
+		while (buffer.length < size) {
+			tail = tail
+				? tail.then((previous) =>
+						previous?.lastEvaluatedKey && !controller.signal.aborted
+							? fetchPage(previous.lastEvaluatedKey, controller.signal)
+							: null,
+					)
+				: fetchPage(startKey, controller.signal);
+			// Pages abandoned by an early close must not surface as unhandled
+			tail.catch(() => {});
+			buffer.push(tail);
+		}
+	};
+
+	try {
+		fill(1);
+		while (buffer.length > 0) {
+			const page = await buffer.shift();
+			if (!page) {
+				return;
+			}
+			fill(prefetch);
+			yield page.items;
+		}
+	} finally {
+		controller.abort();
+	}
+}
+
+/**
+ * Fetches pages from `startKey` until `size` items are collected, the
+ * results run out or `maxRequests` requests were made. Items beyond `size`
+ * are dropped and `lastEvaluatedKey` points right after the last kept item,
+ * so none of them are skipped by the next page.
+ */
+export async function fillPage<T>(
+	fetchPage: FetchKeyedPage<T>,
+	size: number,
+	startKey?: Record<string, NativeAttributeValue>,
+	maxRequests = Number.POSITIVE_INFINITY,
+): Promise<FilledPage<T>> {
+	const page: FilledPage<T> = { items: [], itemKeys: [], scannedCount: 0 };
+	let nextKey = startKey;
+	let requests = 0;
+
+	do {
+		const result = await fetchPage(nextKey, size - page.items.length);
+		requests++;
+
+		const take = Math.min(result.items.length, size - page.items.length);
+		page.items.push(...result.items.slice(0, take));
+		page.itemKeys.push(...result.itemKeys.slice(0, take));
+		page.scannedCount += result.scannedCount;
+		page.consumedCapacity = mergeConsumedCapacity(
+			page.consumedCapacity,
+			result.consumedCapacity,
+		);
+
+		nextKey =
+			take < result.items.length
+				? result.itemKeys[take - 1]
+				: result.lastEvaluatedKey;
+	} while (nextKey && page.items.length < size && requests < maxRequests);
+
+	page.lastEvaluatedKey = nextKey;
+	return page;
+}
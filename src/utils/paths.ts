@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { ValidationError } from "../errors/DynamoDBError.js";
+
+// A map key or a list index within a document path
+export type PathSegment = string | number;
+
+const SAFE_NAME = /^[A-Za-z0-9_]+$/;
+const SEGMENT = /^([^.[\]]+)((?:\[\d+\])*)$/;
+
+/**
+ * Splits a document path into map keys and list indexes.
+ * @example
+ * parsePath('items[0].sku'); // => ['items', 0, 'sku']
+ */
+export function parsePath(path: string): PathSegment[] {
+	const segments: PathSegment[] = [];
+
+	for (const part of path.split(".")) {
+		const match = SEGMENT.exec(part);
+		if (!match) {
+			throw new ValidationError(`Invalid document path '${path}'`);
+		}
+		segments.push(match[1]);
+		for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+			segments.push(Number(index[1]));
+		}
+	}
+
+	return segments;
+}
+
+/**
+ * Builds the expression form of a document path, with an attribute name
+ * placeholder per map key.
+ * @example
+ * buildPathExpression('items[0].unit-price');
+ * // => {
+ * //   expression: '#items[0].#unit_price_tfac27',
+ * //   attributeNames: { '#items': 'items', '#unit_price_tfac27': 'unit-price' }
+ * // }
+ */
+export function buildPathExpression(path: string): {
+	expression: string;
+	attributeNames: Record<string, string>;
+} {
+	const attributeNames: Record<string, string> = {};
+	let expression = "";
+
+	for (const segment of parsePath(path)) {
+		if (typeof segment === "number") {
+			expression += `[${segment}]`;
+			continue;
+		}
+		const placeholder = namePlaceholder(segment);
+		attributeNames[placeholder] = segment;
+		expression += expression ? `.${placeholder}` : placeholder;
+	}
+
+	return { expression, attributeNames };
+}
+
+/**
+ * Builds a ProjectionExpression with an attribute name placeholder per path.
+ * @example
+ * buildProjectionExpression(['id', 'name']);
+ * // => { expression: '#id, #name', attributeNames: { '#id': 'id', '#name': 'name' } }
+ */
+export function buildProjectionExpression(paths: readonly string[]): {
+	expression: string;
+	attributeNames: Record<string, string>;
+} {
+	const parts = paths.map(buildPathExpression);
+	return {
+		expression: parts.map((part) => part.expression).join(", "),
+		attributeNames: Object.assign(
+			{},
+			...parts.map((part) => part.attributeNames),
+		),
+	};
+}
+
+/**
+ * Narrows an object schema to the selected top-level attributes, for
+ * validating items read with a ProjectionExpression.
+ */
+export function pickSchema(
+	schema: z.ZodObject<any>,
+	attributes: readonly string[],
+): z.ZodObject<any> {
+	if (attributes.length === 0) {
+		throw new ValidationError("At least one attribute must be selected");
+	}
+	const unknown = attributes.filter(
+		(attribute) => !(attribute in schema.shape),
+	);
+	if (unknown.length > 0) {
+		throw new ValidationError(
+			`Unknown attributes selected: ${unknown.map((a) => `'${a}'`).join(", ")}`,
+		);
+	}
+	// Key attributes read along with the selection are dropped
+	return schema
+		.pick(Object.fromEntries(attributes.map((attribute) => [attribute, true])))
+		.strip();
+}
+
+/**
+ * Base name for value placeholders of a path, e.g. `items_0_sku`. Uniqueness
+ * is left to `QueryExpressions.generateUniqueValueKey`.
+ */
+export function valueKeyBase(path: string): string {
+	const base = path.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+	return base || "value";
+}
+
+/**
+ * Returns true when two paths address the same attribute or one contains
+ * the other, which DynamoDB rejects within a single UpdateExpression.
+ */
+export function pathsOverlap(a: PathSegment[], b: PathSegment[]): boolean {
+	const length = Math.min(a.length, b.length);
+	return a.slice(0, length).every((segment, i) => segment === b[i]);
+}
+
+/**
+ * Resolves the Zod schema at `path`, looking through optional, nullable and
+ * default wrappers of every parent. The leaf schema is returned unwrapped
+ * as-is; `undefined` means the path does not exist in the schema.
+ */
+export function resolvePathSchema(
+	schema: z.ZodTypeAny,
+	path: string | PathSegment[],
+): z.ZodTypeAny | undefined {
+	const segments = typeof path === "string" ? parsePath(path) : path;
+	let current: z.ZodTypeAny | undefined = schema;
+
+	for (const segment of segments) {
+		if (!current) {
+			return undefined;
+		}
+		const container = unwrapSchema(current);
+
+		if (typeof segment === "number") {
+			current = container instanceof z.ZodArray ? container.element : undefined;
+		} else if (container instanceof z.ZodObject) {
+			current = container.shape[segment];
+		} else if (container instanceof z.ZodRecord) {
+			current = container.valueSchema;
+		} else {
+			current = undefined;
+		}
+	}
+
+	return current;
+}
+
+/**
+ * Strips optional/nullable/default wrappers to get the underlying type.
+ */
+export function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+	let current = schema;
+	while (
+		current instanceof z.ZodOptional ||
+		current instanceof z.ZodNullable ||
+		current instanceof z.ZodDefault
+	) {
+		current = current._def.innerType;
+	}
+	return current;
+}
+
+function namePlaceholder(name: string): string {
+	if (SAFE_NAME.test(name)) {
+		return `#${name}`;
+	}
+	// Sanitizing alone could map two names to one placeholder
+	return `#${valueKeyBase(name)}_${hashName(name)}`;
+}
+
+// FNV-1a, only used to keep sanitized placeholders distinct
+function hashName(name: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < name.length; i++) {
+		hash ^= name.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(36);
+}
@@ -0,0 +1,101 @@
+import { ThrottlingError } from "../errors/DynamoDBError.js";
+import type { RetryEvent, RetryPolicy } from "../types/Model.js";
+import { backoffDelay, sleep } from "./async.js";
+
+type ResolvedRetryPolicy = Required<Omit<RetryPolicy, "onRetry">> &
+	Pick<RetryPolicy, "onRetry">;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+	maxRetries: 3,
+	baseDelayMs: 50,
+	maxDelayMs: 5000,
+	maxElapsedMs: Number.POSITIVE_INFINITY,
+};
+
+// AWS exceptions worth another attempt after a backoff
+const RETRYABLE = new Set([
+	"ProvisionedThroughputExceededException",
+	"ThrottlingException",
+	"RequestLimitExceeded",
+	"InternalServerError",
+]);
+
+export function isRetryable(error: unknown): boolean {
+	return (
+		error instanceof ThrottlingError ||
+		(error instanceof Error && RETRYABLE.has(error.name))
+	);
+}
+
+/**
+ * Tracks the retries of one operation. Later policies override earlier ones
+ * field by field, so model and per-call settings can be layered; fields left
+ * `undefined` keep the earlier value.
+ */
+export class Backoff {
+	private readonly policy: ResolvedRetryPolicy = { ...DEFAULT_RETRY_POLICY };
+	private readonly startedAt = Date.now();
+	private attempt = 0;
+
+	constructor(
+		private readonly context: Pick<RetryEvent, "operation" | "tableName">,
+		...policies: (RetryPolicy | undefined)[]
+	) {
+		for (const policy of policies) {
+			for (const [field, value] of Object.entries(policy ?? {})) {
+				if (value !== undefined) {
+					Object.assign(this.policy, { [field]: value });
+				}
+			}
+		}
+	}
+
+	get retries(): number {
+		return this.attempt;
+	}
+
+	/**
+	 * Waits before the next attempt. Returns false without waiting once
+	 * `maxRetries` or `maxElapsedMs` would be exceeded.
+	 */
+	async next(
+		reason: Pick<RetryEvent, "error" | "unprocessed">,
+	): Promise<boolean> {
+		const { maxRetries, baseDelayMs, maxDelayMs, maxElapsedMs } = this.policy;
+		const delayMs = backoffDelay(this.attempt, baseDelayMs, maxDelayMs);
+		const elapsedMs = Date.now() - this.startedAt;
+		if (this.attempt >= maxRetries || elapsedMs + delayMs > maxElapsedMs) {
+			return false;
+		}
+
+		this.attempt++;
+		this.policy.onRetry?.({
+			...this.context,
+			...reason,
+			attempt: this.attempt,
+			delayMs,
+			elapsedMs,
+		});
+		await sleep(delayMs);
+		return true;
+	}
+}
+
+/**
+ * Runs `send`, retrying throttling and internal errors with `backoff`.
+ * Other errors, and the last retryable one, are rethrown unchanged.
+ */
+export async function withRetry<T>(
+	send: () => Promise<T>,
+	backoff: Backoff,
+): Promise<T> {
+	for (;;) {
+		try {
+			return await send();
+		} catch (error) {
+			if (!isRetryable(error) || !(await backoff.next({ error }))) {
+				throw error;
+			}
+		}
+	}
+}